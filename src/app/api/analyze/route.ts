@@ -2,62 +2,57 @@ import { NextResponse } from "next/server";
 import path from "node:path";
 import { pathToFileURL } from "node:url";
 import * as pdfjsLib from "pdfjs-dist/legacy/build/pdf.mjs";
-import { googleVisionOcrFromImageBase64 } from "@/lib/ocr/google-vision-rest";
+import { cacheEnabled, contentDigest, readCache, writeCache } from "@/lib/cache/extraction-cache";
+import { lookupMerchant } from "@/lib/categorize/merchants";
+import { describeMapping } from "@/lib/importers/columns";
+import { describeDelimiter, importCsv } from "@/lib/importers/csv";
+import { importCamt053, type StatementImportResult } from "@/lib/importers/camt";
+import { ImportError } from "@/lib/importers/errors";
+import { importExcel } from "@/lib/importers/excel";
+import { importMt940 } from "@/lib/importers/mt940";
+import { importOfx } from "@/lib/importers/ofx";
+import { importQif } from "@/lib/importers/qif";
+import { mergeStatements, type UploadedStatement } from "@/lib/ledger/merge";
+import { buildInsights } from "@/lib/ledger/insights";
+import { combineReconciliations, reconcile } from "@/lib/ledger/reconcile";
+import { decodeTransfer } from "@/lib/narration/transfer";
+import { decodeUpi, upiCounterparty } from "@/lib/narration/upi";
+import { getOcrPageBudget, getOcrProvider } from "@/lib/ocr";
+import { ocrConfidence, ocrResultToText } from "@/lib/ocr/layout";
+import type { OcrProvider, OcrResult } from "@/lib/ocr/types";
 import { runParserPipeline } from "@/lib/parsers";
+import { groupLines, lineText, type PositionedLine, type PositionedToken } from "@/lib/parsers/layout";
+import { maskAccountNumber } from "@/lib/parsers/header";
+import { teachSample } from "@/lib/parsers/teach";
+import type { ParserRunResult, ParserTxn } from "@/lib/parsers/types";
+import type {
+    AnalyzeFail,
+    AnalyzeMeta,
+    AnalyzeOk,
+    AnalyzeResponse,
+    CacheUsage,
+    CardSummary,
+    FileType,
+    LedgerBalance,
+    PageSource,
+    ParseDiagnostics,
+    StatementHeader,
+    StatementKind,
+    Txn,
+} from "@/lib/types/analyze";
 
 export const runtime = "nodejs";
 
+// A page with less text layer than this is a scan and goes to OCR.
+const SCANNED_PAGE_CHARS = 50;
+
 // Set worker source explicitly for pdfjs-dist v5 in Node route handlers.
 const workerPath = path.join(process.cwd(), "node_modules", "pdfjs-dist", "build", "pdf.worker.min.mjs");
 pdfjsLib.GlobalWorkerOptions.workerSrc = pathToFileURL(workerPath).toString();
 
-type FileType = "pdf" | "csv" | "image" | "unknown";
-
-type Txn = {
-    id: string;
-    date: string;
-    description: string;
-    amount: number;
-    drCr?: "CR" | "DR";
-    sourceParser?: string;
-    currency: string;
-    category: string;
-    confidence: number;
-    merchant?: string;
-    isSubscription?: boolean;
-};
-
-type AnalyzeMeta = {
-    fileType: FileType;
-    encrypted?: boolean;
-    pageCount?: number;
-
-    // NEW
-    extractedTextChars?: number;
-    requiresOcr?: boolean;
-
-    note?: string;
-};
-
-type Insights = {
-    transactionCount: number;
-    totalDebits: number;
-    totalCredits: number;
-    netFlow: number;
-    incomeExpenseRatio: number | null;
-    avgDebit: number;
-    avgCredit: number;
-    categoryBreakdown: Array<{ category: string; count: number; total: number }>;
-    monthOverMonth: Array<{ month: string; income: number; expense: number; net: number }>;
-    subscriptions: Array<{ merchant: string; count: number; avgAmount: number; totalAmount: number }>;
-    unusualSpends: Array<{ id: string; date: string; description: string; amount: number }>;
-    topExpense?: { description: string; amount: number };
-    topCredit?: { description: string; amount: number };
-};
-
-type ApiOk = { ok: true; txns: Txn[]; meta: AnalyzeMeta; insights: Insights };
-type ApiFail = { ok: false; message: string; needsPassword?: boolean };
-type ApiResponse = ApiOk | ApiFail;
+type ApiOk = AnalyzeOk;
+type ApiFail = AnalyzeFail;
+type ApiResponse = AnalyzeResponse;
 type ParsedRow = {
     date: string;
     valueDate?: string;
@@ -69,10 +64,55 @@ type ParsedRow = {
     balanceType?: "DR" | "CR";
 };
 
-type PositionedToken = {
-    str: string;
-    x: number;
-    y: number;
+type Analysis = {
+    status: number;
+    body: ApiResponse;
+};
+
+type ParsedText = {
+    txns: Txn[];
+    parserId: string;
+    kind: StatementKind;
+    card?: CardSummary;
+    statement: StatementHeader;
+    warnings: string[];
+    diagnostics?: ParserRunResult["diagnostics"];
+};
+
+type OcrText = {
+    text: string;
+    chars: number;
+    confidence?: number;
+};
+
+type OcrPage = {
+    page: number;
+    text: string;
+    confidence?: number;
+};
+
+type PdfOcr = {
+    pages: OcrPage[];
+    // Why OCR could not run at all, e.g. no page renderer installed.
+    unavailable?: string;
+};
+
+type PdfPageText = {
+    page: number;
+    text: string;
+    lines: PositionedLine[];
+};
+
+type PdfText = {
+    text: string;
+    lines: PositionedLine[];
+    pages: PdfPageText[];
+};
+
+type MergedPages = {
+    text: string;
+    sources: PageSource[];
+    ocrPages: OcrPage[];
 };
 
 const DATE_TOKEN =
@@ -82,7 +122,30 @@ function fileTypeOf(file: File): FileType {
     const name = file.name.toLowerCase();
     const mime = file.type;
     if (mime === "application/pdf" || name.endsWith(".pdf")) return "pdf";
-    if (mime === "text/csv" || name.endsWith(".csv")) return "csv";
+    if (
+        mime === "text/csv" ||
+        mime === "text/tab-separated-values" ||
+        name.endsWith(".csv") ||
+        name.endsWith(".tsv")
+    )
+        return "csv";
+    if (
+        mime === "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" ||
+        mime === "application/vnd.ms-excel" ||
+        name.endsWith(".xlsx") ||
+        name.endsWith(".xls")
+    )
+        return "excel";
+    if (
+        mime === "application/x-ofx" ||
+        mime === "application/vnd.intu.qfx" ||
+        name.endsWith(".ofx") ||
+        name.endsWith(".qfx")
+    )
+        return "ofx";
+    if (mime === "application/qif" || mime === "application/x-qif" || name.endsWith(".qif")) return "qif";
+    if (mime === "application/xml" || mime === "text/xml" || name.endsWith(".xml")) return "camt053";
+    if (name.endsWith(".sta") || name.endsWith(".940") || name.endsWith(".mt940")) return "mt940";
     if (
         mime.startsWith("image/") ||
         name.endsWith(".png") ||
@@ -128,11 +191,22 @@ function toPasswordFail(err: unknown): ApiFail | null {
     };
 }
 
+function reply(body: ApiResponse, status = 200): Analysis {
+    return { status, body };
+}
+
+function toImportFail(format: string, err: ImportError): ApiFail {
+    return { ok: false, message: `${format} error: ${err.message}`, location: err.location };
+}
+
 function normalizeAmountToken(raw: string): string {
     return raw.replace(/[^\d,.-]/g, "").replace(/,/g, "").trim();
 }
 
-function textFromPageContent(content: Awaited<ReturnType<pdfjsLib.PDFPageProxy["getTextContent"]>>): string {
+function linesFromPageContent(
+    content: Awaited<ReturnType<pdfjsLib.PDFPageProxy["getTextContent"]>>,
+    page: number
+): PositionedLine[] {
     const tokens: PositionedToken[] = [];
 
     for (const item of content.items) {
@@ -142,49 +216,83 @@ function textFromPageContent(content: Awaited<ReturnType<pdfjsLib.PDFPageProxy["
         const transform = item.transform as number[];
         const x = Number(transform?.[4] ?? 0);
         const y = Number(transform?.[5] ?? 0);
-        tokens.push({ str, x, y });
-    }
-
-    tokens.sort((a, b) => {
-        if (Math.abs(b.y - a.y) > 1.5) return b.y - a.y;
-        return a.x - b.x;
-    });
-
-    const rows: PositionedToken[][] = [];
-    for (const t of tokens) {
-        const last = rows[rows.length - 1];
-        if (!last || Math.abs(last[0].y - t.y) > 2.5) {
-            rows.push([t]);
-        } else {
-            last.push(t);
-        }
+        const width = Number(("width" in item ? item.width : 0) ?? 0);
+        tokens.push({ str, x, y, width });
     }
 
-    return rows
-        .map((row) => row.sort((a, b) => a.x - b.x).map((t) => t.str).join(" "))
-        .join("\n");
+    return groupLines(tokens, page);
 }
 
 // Extract visible text using x/y grouping, which is more reliable for table PDFs.
-async function extractPdfText(doc: pdfjsLib.PDFDocumentProxy, maxPages: number) {
-    const pages = Math.min(doc.numPages, maxPages);
-    let text = "";
+// The positioned lines are kept for the column-aware layout stage, and per page
+// so each page can be judged text or scan on its own.
+async function extractPdfText(doc: pdfjsLib.PDFDocumentProxy, maxPages: number): Promise<PdfText> {
+    const count = Math.min(doc.numPages, maxPages);
+    const pages: PdfPageText[] = [];
 
-    for (let i = 1; i <= pages; i++) {
+    for (let i = 1; i <= count; i++) {
         const page = await doc.getPage(i);
         const content = await page.getTextContent();
-        const pageText = textFromPageContent(content);
-        text += pageText + "\n";
+        const lines = linesFromPageContent(content, i);
+        pages.push({ page: i, text: lines.map(lineText).join("\n").trim(), lines });
     }
 
-    return text.trim();
+    const lines = pages.flatMap((p) => p.lines);
+    return { text: lines.map(lineText).join("\n").trim(), lines, pages };
+}
+
+function toOcrPage(page: number, result: OcrResult): OcrPage {
+    return { page, text: ocrResultToText(result), confidence: ocrConfidence(result) };
 }
 
-async function ocrPdfPages(doc: pdfjsLib.PDFDocumentProxy, maxPages: number): Promise<string> {
-    if (!process.env.GOOGLE_VISION_API_KEY) return "";
+// One page image through OCR, or its earlier result when the same image was
+// read before by the same engine.
+async function recognizeCached(provider: OcrProvider, image: Buffer, usage: CacheUsage): Promise<OcrResult> {
+    const namespace = `ocr-${provider.id}` as const;
+    const cached = await readCache<OcrResult>(namespace, image);
+    if (cached) {
+        usage.ocrHits++;
+        return cached;
+    }
+    const result = await provider.recognize(image);
+    usage.ocrMisses++;
+    await writeCache(namespace, image, result);
+    return result;
+}
 
-    const pages = Math.min(doc.numPages, maxPages);
-    let text = "";
+// OCR every image in order and join the reconstructed lines as consecutive
+// pages of one statement.
+async function ocrImagePages(provider: OcrProvider, images: Buffer[], usage: CacheUsage): Promise<OcrText> {
+    const pages: OcrPage[] = [];
+    for (const image of images) {
+        pages.push(toOcrPage(pages.length + 1, await recognizeCached(provider, image, usage)));
+    }
+    return summarizeOcr(pages);
+}
+
+function summarizeOcr(pages: OcrPage[]): OcrText {
+    const text = pages
+        .map((p) => p.text)
+        .join("\n")
+        .trim();
+
+    // Weight page confidences by recognized characters so blank pages do not skew it.
+    const scored = pages.filter((p) => typeof p.confidence === "number" && p.text.length > 0);
+    const scoredChars = scored.reduce((sum, p) => sum + p.text.length, 0);
+    const confidence =
+        scoredChars > 0 ? scored.reduce((sum, p) => sum + p.confidence! * p.text.length, 0) / scoredChars : undefined;
+
+    return { text, chars: text.length, confidence };
+}
+
+// Render and OCR the given pages (1-based), in order.
+async function ocrPdfPages(
+    provider: OcrProvider,
+    doc: pdfjsLib.PDFDocumentProxy,
+    pageNumbers: number[],
+    usage: CacheUsage
+): Promise<PdfOcr> {
+    const pages: OcrPage[] = [];
 
     // Lazy-load native canvas only when OCR is required.
     let canvasMod: {
@@ -202,10 +310,10 @@ async function ocrPdfPages(doc: pdfjsLib.PDFDocumentProxy, maxPages: number): Pr
         };
     } catch {
         // Native binding missing in this environment. Skip OCR fallback.
-        return "";
+        return { pages, unavailable: "PDF page rendering needs @napi-rs/canvas, which is not installed." };
     }
 
-    for (let i = 1; i <= pages; i++) {
+    for (const i of pageNumbers) {
         const page = await doc.getPage(i);
         const viewport = page.getViewport({ scale: 2.0 });
         const canvas = canvasMod.createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
@@ -223,13 +331,34 @@ async function ocrPdfPages(doc: pdfjsLib.PDFDocumentProxy, maxPages: number): Pr
         }
 
         const png = canvas.toBuffer("image/png");
-        const { text: pageText } = await googleVisionOcrFromImageBase64({
-            base64: png.toString("base64"),
-        });
-        text += `${pageText}\n`;
+        pages.push(toOcrPage(i, await recognizeCached(provider, png, usage)));
+    }
+
+    return { pages };
+}
+
+// Pages in order, each from OCR when it was OCR'd and something was read,
+// otherwise from its text layer. A scan OCR did not read is kept as "skipped".
+function mergePages(pages: PdfPageText[], ocr: OcrPage[]): MergedPages {
+    const byPage = new Map(ocr.map((p) => [p.page, p]));
+    const texts: string[] = [];
+    const sources: PageSource[] = [];
+    const ocrPages: OcrPage[] = [];
+
+    for (const p of pages) {
+        const o = byPage.get(p.page);
+        if (o && o.text.length > 0) {
+            texts.push(o.text);
+            ocrPages.push(o);
+            sources.push({ page: p.page, source: "ocr", chars: o.text.length, ocrConfidence: o.confidence });
+        } else {
+            texts.push(p.text);
+            const source = p.text.length < SCANNED_PAGE_CHARS ? "skipped" : "text";
+            sources.push({ page: p.page, source, chars: p.text.length });
+        }
     }
 
-    return text.trim();
+    return { text: texts.filter(Boolean).join("\n").trim(), sources, ocrPages };
 }
 
 function looksLikeHeader(line: string): boolean {
@@ -421,288 +550,530 @@ function toTxns(rows: ParsedRow[]): Txn[] {
     return txns;
 }
 
-function parseTransactionsFromText(text: string): Txn[] {
-    const result = runParserPipeline(text);
-    return result.txns.map((t, i) => ({
-        id: `${t.date}-${result.parserId}-${i + 1}`,
-        date: t.date,
-        description: t.description,
-        amount: t.amount,
-        drCr: t.drCr,
-        sourceParser: t.sourceParser,
-        currency: t.currency,
-        category: t.category,
-        confidence: t.confidence,
-    }));
-}
-
-function monthKey(dateIso: string): string | null {
-    const m = dateIso.match(/^(\d{4})-(\d{2})-\d{2}$/);
-    if (!m) return null;
-    return `${m[1]}-${m[2]}`;
-}
-
-function normalizeMerchant(description: string): string {
-    return description
-        .toUpperCase()
-        .replace(/\b(UPI|IMPS|NEFT|RTGS|POS|ATM|TO|BY|TRANSFER|PAYMENT|DEBIT|CREDIT|REF|TXN|ID)\b/g, " ")
-        .replace(/[0-9#*._/-]+/g, " ")
-        .replace(/\s+/g, " ")
-        .trim();
-}
-
-function buildInsights(txns: Txn[]): Insights {
-    const debits = txns.filter((t) => (t.drCr ? t.drCr === "DR" : t.amount < 0));
-    const credits = txns.filter((t) => (t.drCr ? t.drCr === "CR" : t.amount > 0));
-
-    const totalDebits = debits.reduce((sum, t) => sum + Math.abs(t.amount), 0);
-    const totalCredits = credits.reduce((sum, t) => sum + Math.abs(t.amount), 0);
-    const topExpenseTxn = debits.reduce<Txn | null>((best, t) => {
-        if (!best) return t;
-        return Math.abs(t.amount) > Math.abs(best.amount) ? t : best;
-    }, null);
-    const topCreditTxn = credits.reduce<Txn | null>((best, t) => {
-        if (!best) return t;
-        return t.amount > best.amount ? t : best;
-    }, null);
-
-    const categoryMap = new Map<string, { count: number; total: number }>();
-    for (const t of txns) {
-        const entry = categoryMap.get(t.category) ?? { count: 0, total: 0 };
-        entry.count += 1;
-        entry.total += Math.abs(t.amount);
-        categoryMap.set(t.category, entry);
-    }
-    const categoryBreakdown = Array.from(categoryMap.entries())
-        .map(([category, v]) => ({ category, count: v.count, total: v.total }))
-        .sort((a, b) => b.total - a.total);
-
-    const monthMap = new Map<string, { income: number; expense: number }>();
-    for (const t of txns) {
-        const mk = monthKey(t.date);
-        if (!mk) continue;
-        const entry = monthMap.get(mk) ?? { income: 0, expense: 0 };
-        const type = t.drCr ?? (t.amount >= 0 ? "CR" : "DR");
-        if (type === "CR") entry.income += Math.abs(t.amount);
-        else entry.expense += Math.abs(t.amount);
-        monthMap.set(mk, entry);
-    }
-    const monthOverMonth = Array.from(monthMap.entries())
-        .sort(([a], [b]) => a.localeCompare(b))
-        .map(([month, v]) => ({ month, income: v.income, expense: v.expense, net: v.income - v.expense }));
-
-    const merchantGroups = new Map<string, Txn[]>();
-    for (const t of debits) {
-        const merchant = normalizeMerchant(t.description);
-        if (!merchant || merchant.length < 3) continue;
-        const arr = merchantGroups.get(merchant) ?? [];
-        arr.push(t);
-        merchantGroups.set(merchant, arr);
-    }
-    const subscriptions = Array.from(merchantGroups.entries())
-        .map(([merchant, list]) => {
-            const months = new Set(list.map((t) => monthKey(t.date)).filter(Boolean));
-            const total = list.reduce((s, t) => s + Math.abs(t.amount), 0);
-            const avg = total / list.length;
-            return {
-                merchant,
-                count: list.length,
-                monthCount: months.size,
-                avgAmount: avg,
-                totalAmount: total,
-            };
-        })
-        .filter((g) => g.count >= 2 && g.monthCount >= 2)
-        .sort((a, b) => b.totalAmount - a.totalAmount)
-        .slice(0, 10)
-        .map((g) => ({
-            merchant: g.merchant,
-            count: g.count,
-            avgAmount: g.avgAmount,
-            totalAmount: g.totalAmount,
-        }));
-
-    const debitAbs = debits.map((t) => Math.abs(t.amount));
-    const mean = debitAbs.length ? debitAbs.reduce((a, b) => a + b, 0) / debitAbs.length : 0;
-    const variance =
-        debitAbs.length > 1
-            ? debitAbs.reduce((s, v) => s + (v - mean) * (v - mean), 0) / debitAbs.length
-            : 0;
-    const stdDev = Math.sqrt(variance);
-    const unusualThreshold = Math.max(mean * 1.8, mean + 2 * stdDev);
-    const unusualSpends = debits
-        .filter((t) => Math.abs(t.amount) > unusualThreshold && Math.abs(t.amount) > 1000)
-        .sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount))
-        .slice(0, 10)
-        .map((t) => ({
-            id: t.id,
+function toApiTxns(parserTxns: ParserTxn[], parserId: string): Txn[] {
+    return parserTxns.map((t, i) => {
+        const upi = decodeUpi(t.description);
+        return {
+            // Bank-assigned IDs (OFX FITID, QIF check numbers) stay stable across re-uploads.
+            id: t.externalId ? `${parserId}-${t.externalId}` : `${t.date}-${parserId}-${i + 1}`,
+            externalId: t.externalId,
             date: t.date,
+            valueDate: t.valueDate,
             description: t.description,
-            amount: Math.abs(t.amount),
-        }));
-
-    const incomeExpenseRatio = totalDebits > 0 ? totalCredits / totalDebits : null;
+            amount: t.amount,
+            drCr: t.drCr,
+            sourceParser: t.sourceParser,
+            currency: t.currency,
+            category: t.category,
+            confidence: t.confidence,
+            balance: t.balance,
+            // A known merchant's own name beats however the UPI payee was spelled.
+            merchant: lookupMerchant(t.description)?.name ?? upi?.name,
+            // Structured formats name the counterparty; otherwise the narration does.
+            counterparty: t.counterparty ?? (upi ? upiCounterparty(upi) : decodeTransfer(t.description)),
+            reference: t.reference,
+            upi,
+        };
+    });
+}
 
+function parseTransactionsFromText(text: string, lines?: PositionedLine[], debug = false): ParsedText {
+    const result = runParserPipeline(text, lines, { debug });
     return {
-        transactionCount: txns.length,
-        totalDebits,
-        totalCredits,
-        netFlow: totalCredits - totalDebits,
-        incomeExpenseRatio,
-        avgDebit: debits.length ? totalDebits / debits.length : 0,
-        avgCredit: credits.length ? totalCredits / credits.length : 0,
-        categoryBreakdown,
-        monthOverMonth,
-        subscriptions,
-        unusualSpends,
-        topExpense: topExpenseTxn
-            ? { description: topExpenseTxn.description, amount: Math.abs(topExpenseTxn.amount) }
-            : undefined,
-        topCredit: topCreditTxn ? { description: topCreditTxn.description, amount: topCreditTxn.amount } : undefined,
+        txns: toApiTxns(result.txns, result.parserId),
+        parserId: result.parserId,
+        kind: result.kind,
+        card: result.card,
+        statement: result.statement,
+        warnings: result.warnings,
+        diagnostics: result.diagnostics,
     };
 }
 
-export async function POST(req: Request) {
-    try {
-        const form = await req.formData();
-        const file = form.get("file");
-
-        if (!file || !(file instanceof File)) {
-            return NextResponse.json<ApiFail>(
-                { ok: false, message: "Missing file." },
-                { status: 400 }
-            );
-        }
-
-        const passwordRaw = form.get("password");
-        const password =
-            typeof passwordRaw === "string" && passwordRaw.trim().length > 0
-                ? passwordRaw.trim()
-                : undefined;
-
-        const ft = fileTypeOf(file);
-
-        // ---------------- PDF ----------------
-        if (ft === "pdf") {
-            const bytes = new Uint8Array(await file.arrayBuffer());
-
-            const init = {
-                data: bytes,
-                password,
-            } as Parameters<typeof pdfjsLib.getDocument>[0];
-
-            const loadingTask = pdfjsLib.getDocument(init);
-
-            // ✅ reliable password handling
-            const passwordPrompt = new Promise<never>((_, reject) => {
-                loadingTask.onPassword = (_updatePassword: (pw: string) => void, reason: number) => {
-                    const INCORRECT_PASSWORD = pdfjsLib.PasswordResponses?.INCORRECT_PASSWORD ?? 2;
+// Balances read from a PDF's summary block let reconciliation check the first
+// and last rows too, as the structured formats already do.
+function headerBalance(amount: number | undefined, asOf: string | undefined): LedgerBalance | undefined {
+    return amount === undefined ? undefined : { amount, asOf };
+}
 
-                    loadingTask.destroy().catch(() => undefined);
+// One statement: a single file, or several images that are its pages. Every
+// successful parse is checked against its running balance before insights.
+async function analyzeStatement(files: File[], password: string | undefined, debug: boolean): Promise<Analysis> {
+    const analysis = await parseStatement(files, password, debug);
+    if (!analysis.body.ok) return analysis;
 
-                    const payload: ApiFail = {
-                        ok: false,
-                        needsPassword: true,
-                        message:
-                            reason === INCORRECT_PASSWORD
-                                ? "Incorrect password. Please try again."
-                                : "This PDF is password-protected. Enter the password to continue.",
-                    };
+    const { meta } = analysis.body;
+    const { txns, report } = reconcile(analysis.body.txns, {
+        openingBalance: meta.openingBalance?.amount,
+        closingBalance: meta.closingBalance?.amount,
+    });
+    return reply(
+        { ...analysis.body, txns, meta: { ...meta, reconciliation: report }, insights: buildInsights(txns) },
+        analysis.status
+    );
+}
 
-                    reject(payload);
+async function parseStatement(files: File[], password: string | undefined, debug: boolean): Promise<Analysis> {
+    const file = files[0];
+    const ft = fileTypeOf(file);
+
+    // ---------------- PDF ----------------
+    if (ft === "pdf") {
+        const bytes = new Uint8Array(await file.arrayBuffer());
+        // Taken before pdf.js, which may transfer the buffer to its worker.
+        const fileDigest = contentDigest(bytes);
+        const cache: CacheUsage = { ocrHits: 0, ocrMisses: 0 };
+
+        const init = {
+            data: bytes,
+            password,
+        } as Parameters<typeof pdfjsLib.getDocument>[0];
+
+        const loadingTask = pdfjsLib.getDocument(init);
+
+        // ✅ reliable password handling
+        const passwordPrompt = new Promise<never>((_, reject) => {
+            loadingTask.onPassword = (_updatePassword: (pw: string) => void, reason: number) => {
+                const INCORRECT_PASSWORD = pdfjsLib.PasswordResponses?.INCORRECT_PASSWORD ?? 2;
+
+                loadingTask.destroy().catch(() => undefined);
+
+                const payload: ApiFail = {
+                    ok: false,
+                    needsPassword: true,
+                    message:
+                        reason === INCORRECT_PASSWORD
+                            ? "Incorrect password. Please try again."
+                            : "This PDF is password-protected. Enter the password to continue.",
                 };
-            });
-
-            try {
-                const doc = await Promise.race([loadingTask.promise, passwordPrompt]);
 
-                const pageCount = doc.numPages;
-
-                // Parse all pages for transaction extraction.
-                const text = await extractPdfText(doc, doc.numPages);
-                const extractedTextChars = text.length;
-                let txns = parseTransactionsFromText(text);
-                const parserUsed = txns[0]?.sourceParser ?? "none";
+                reject(payload);
+            };
+        });
 
-                // Heuristic: if very little text, likely scanned => needs OCR pipeline
-                const looksScanned = extractedTextChars < 50;
-                let ocrChars = 0;
+        try {
+            const doc = await Promise.race([loadingTask.promise, passwordPrompt]);
+
+            const pageCount = doc.numPages;
+
+            // Parse all pages for transaction extraction. The document is still
+            // opened first, so a cached entry never skips the password check;
+            // entries of protected files are keyed with the password too.
+            let extracted = await readCache<PdfText>("pdf-text", fileDigest, password);
+            cache.text = extracted ? "hit" : "miss";
+            if (!extracted) {
+                extracted = await extractPdfText(doc, doc.numPages);
+                await writeCache("pdf-text", fileDigest, extracted, password);
+            }
+            const extractedTextChars = extracted.text.length;
+            const ocrProvider = getOcrProvider();
+            const ocrBudget = getOcrPageBudget();
+
+            // Each page is judged on its own: scans go to OCR, up to the page
+            // budget, and text pages keep their text layer.
+            const scanned = extracted.pages.filter((p) => p.text.length < SCANNED_PAGE_CHARS).map((p) => p.page);
+            const looksScanned = scanned.length === pageCount;
+            const ocrAttempted = Math.min(scanned.length, ocrBudget);
+            let ocr: PdfOcr | null = null;
+            if (ocrAttempted > 0 && ocrProvider) {
+                ocr = await ocrPdfPages(ocrProvider, doc, scanned.slice(0, ocrAttempted), cache);
+            }
+            let pages = mergePages(extracted.pages, ocr?.pages ?? []);
+            // Positioned lines only exist for the text layer; with OCR'd pages in
+            // the mix the row parsers read the merged text instead.
+            let parsed = parseTransactionsFromText(
+                pages.text,
+                pages.ocrPages.length === 0 ? extracted.lines : undefined,
+                debug
+            );
 
-                // OCR fallback for scanned PDFs or when parser found no rows in text layer.
-                if ((looksScanned || txns.length === 0) && process.env.GOOGLE_VISION_API_KEY) {
-                    const ocrText = await ocrPdfPages(doc, Math.min(doc.numPages, 5));
-                    ocrChars = ocrText.length;
-                    const ocrTxns = parseTransactionsFromText(ocrText);
-                    if (ocrTxns.length > txns.length) txns = ocrTxns;
+            // OCR fallback when the parser found no rows: the text layer may be
+            // unreadable (broken fonts), so the remaining pages are OCR'd too.
+            if (parsed.txns.length === 0 && ocrProvider && !ocr?.unavailable && ocrAttempted < ocrBudget) {
+                const rest = extracted.pages
+                    .map((p) => p.page)
+                    .filter((n) => !scanned.includes(n))
+                    .slice(0, ocrBudget - ocrAttempted);
+                if (rest.length > 0) {
+                    const more = await ocrPdfPages(ocrProvider, doc, rest, cache);
+                    ocr = { pages: [...(ocr?.pages ?? []), ...more.pages], unavailable: more.unavailable };
+                    const ocrPages = mergePages(extracted.pages, ocr.pages);
+                    const ocrParsed = parseTransactionsFromText(ocrPages.text, undefined, debug);
+                    if (ocrParsed.txns.length > parsed.txns.length) {
+                        parsed = ocrParsed;
+                        pages = ocrPages;
+                    }
                 }
+            }
 
-                const meta: AnalyzeMeta = {
-                    fileType: "pdf",
-                    encrypted: false,
-                    pageCount,
-                    extractedTextChars,
-                    requiresOcr: looksScanned,
-                    note: looksScanned
+            const ocrText = pages.ocrPages.length > 0 ? summarizeOcr(pages.ocrPages) : null;
+            const ocrChars = ocrText?.chars ?? 0;
+            const overBudget = Math.max(0, scanned.length - ocrBudget);
+            const textSource: ParseDiagnostics["textSource"] =
+                pages.ocrPages.length === 0 ? "text" : pages.ocrPages.length === pageCount ? "ocr" : "mixed";
+            const { txns, parserId: parserUsed } = parsed;
+            const budgetNote =
+                overBudget > 0 ? ` ${overBudget} scanned pages were over the OCR page budget (${ocrBudget}).` : "";
+            const scannedNote = looksScanned
+                ? "Scanned/ image-based PDF detected."
+                : `${scanned.length} of ${pageCount} pages are scanned.`;
+
+            const meta: AnalyzeMeta = {
+                fileType: "pdf",
+                statementKind: parsed.kind,
+                encrypted: false,
+                pageCount,
+                openingBalance: headerBalance(parsed.statement.openingBalance, parsed.statement.periodFrom),
+                closingBalance: headerBalance(parsed.statement.closingBalance, parsed.statement.periodTo),
+                parseWarnings: parsed.warnings.length > 0 ? parsed.warnings : undefined,
+                extractedTextChars,
+                requiresOcr: scanned.length > 0,
+                ocrProvider: ocr ? ocrProvider?.id : undefined,
+                ocrChars: ocr ? ocrChars : undefined,
+                ocrConfidence: ocrText?.confidence,
+                pageSources: pages.sources,
+                cache: cacheEnabled() ? cache : undefined,
+                note:
+                    scanned.length > 0
                         ? ocrChars > 0
-                          ? `Scanned/ image-based PDF detected. OCR fallback processed ${Math.min(doc.numPages, 5)} pages.`
-                          : "Scanned/ image-based PDF detected. Configure GOOGLE_VISION_API_KEY to enable OCR fallback."
+                          ? `${scannedNote} OCR processed ${pages.ocrPages.length} of ${pageCount} pages.${budgetNote}`
+                          : ocr?.unavailable
+                            ? `${scannedNote} OCR fallback unavailable: ${ocr.unavailable}`
+                            : ocrProvider
+                              ? ocrAttempted > 0
+                                ? `${scannedNote} OCR read no text from the scanned pages.${budgetNote}`
+                                : `${scannedNote}${budgetNote}`
+                              : `${scannedNote} OCR is disabled (OCR_PROVIDER=none).`
                         : txns.length > 0
                           ? `Text PDF detected. Parsed ${txns.length} transactions using parser ${parserUsed}.`
-                          : ocrChars > 0
+                          : ocr
                             ? "Text layer parsing failed; OCR fallback attempted."
-                            : "Text PDF detected but no transaction rows were matched. Statement format rules need tuning.",
-                };
-                const insights = buildInsights(txns);
-
-                const payload: ApiOk = { ok: true, txns, meta, insights };
-                return NextResponse.json<ApiResponse>(payload);
-            } catch (err: unknown) {
-                // If err is our ApiFail object
-                if (err && typeof err === "object" && "ok" in err) {
-                    const maybeFail = err as ApiFail;
-                    if (maybeFail.ok === false) {
-                        return NextResponse.json<ApiResponse>(maybeFail, { status: 401 });
-                    }
-                }
-                const passwordFail = toPasswordFail(err);
-                if (passwordFail) {
-                    return NextResponse.json<ApiResponse>(passwordFail, { status: 401 });
+                            : "Text PDF detected but no transaction rows were matched. Mark the layout to teach the parser.",
+            };
+            const insights = buildInsights(txns);
+            // Nothing matched: hand back the raw lines for the teach-the-parser flow.
+            const teach = txns.length === 0 ? teachSample(pages.text) : undefined;
+
+            const payload: ApiOk = {
+                ok: true,
+                txns,
+                meta,
+                insights,
+                card: parsed.card,
+                statement: parsed.statement,
+                teach: teach && teach.lines.length > 0 ? teach : undefined,
+                debug: parsed.diagnostics && { textSource, ...parsed.diagnostics },
+            };
+            return reply(payload);
+        } catch (err: unknown) {
+            // If err is our ApiFail object
+            if (err && typeof err === "object" && "ok" in err) {
+                const maybeFail = err as ApiFail;
+                if (maybeFail.ok === false) {
+                    return reply(maybeFail, 401);
                 }
+            }
+            const passwordFail = toPasswordFail(err);
+            if (passwordFail) {
+                return reply(passwordFail, 401);
+            }
 
-                return NextResponse.json<ApiFail>(
-                    { ok: false, message: `PDF error: ${toErrorMessage(err)}` },
-                    { status: 400 }
-                );
+            return reply(
+                { ok: false, message: `PDF error: ${toErrorMessage(err)}` },
+                400
+            );
+        }
+    }
+
+    // ---------------- CSV / TSV ----------------
+    if (ft === "csv") {
+        try {
+            const result = importCsv(new Uint8Array(await file.arrayBuffer()));
+            const txns = toApiTxns(result.txns, result.txns[0]?.sourceParser ?? "csv");
+            const meta: AnalyzeMeta = {
+                fileType: "csv",
+                note:
+                    `CSV parsed with ${describeMapping(result.mapping)}; ` +
+                    `${describeDelimiter(result.delimiter)}-delimited ${result.encoding}, ` +
+                    (result.headerRowIndex >= 0 ? `header on row ${result.headerRowIndex + 1}. ` : "no header row. ") +
+                    `Parsed ${txns.length} transactions` +
+                    (result.skippedRows > 0 ? `, skipped ${result.skippedRows} non-transaction rows.` : "."),
+            };
+            return reply({ ok: true, txns, meta, insights: buildInsights(txns) });
+        } catch (err: unknown) {
+            if (err instanceof ImportError) {
+                return reply(toImportFail("CSV", err), 422);
             }
+            throw err;
         }
+    }
 
-        // ---------------- CSV ( hookup next ) ----------------
-        if (ft === "csv") {
-            return NextResponse.json<ApiResponse>({
-                ok: true,
-                txns: [],
-                insights: buildInsights([]),
-                meta: { fileType: "csv", note: "MVP: CSV parsing next." },
-            });
+    // ---------------- EXCEL (XLSX / XLS) ----------------
+    if (ft === "excel") {
+        try {
+            const result = importExcel(new Uint8Array(await file.arrayBuffer()));
+            const txns = toApiTxns(result.txns, result.txns[0]?.sourceParser ?? "excel");
+            const meta: AnalyzeMeta = {
+                fileType: "excel",
+                note:
+                    `Excel parsed with ${describeMapping(result.mapping)} from sheet "${result.sheetName}"` +
+                    (result.sheetCount > 1 ? ` (${result.sheetCount} sheets). ` : ". ") +
+                    `Parsed ${txns.length} transactions` +
+                    (result.skippedRows > 0 ? `, skipped ${result.skippedRows} non-transaction rows.` : "."),
+            };
+            return reply({ ok: true, txns, meta, insights: buildInsights(txns) });
+        } catch (err: unknown) {
+            if (err instanceof ImportError) {
+                return reply(toImportFail("Excel", err), 422);
+            }
+            throw err;
         }
+    }
 
-        // ---------------- IMAGE (OCR next) ----------------
-        if (ft === "image") {
-            return NextResponse.json<ApiResponse>({
+    // ---------------- OFX / QFX ----------------
+    if (ft === "ofx") {
+        try {
+            const result = importOfx(new Uint8Array(await file.arrayBuffer()));
+            const txns = toApiTxns(result.txns, "ofx-v1");
+            const meta: AnalyzeMeta = {
+                fileType: "ofx",
+                statementKind: result.kind,
+                ledgerBalance: result.ledgerBalance,
+                note:
+                    `OFX parsed: ${txns.length} transactions in ${result.currency}` +
+                    (result.ledgerBalance
+                        ? `, ledger balance ${result.ledgerBalance.amount.toFixed(2)}` +
+                          (result.ledgerBalance.asOf ? ` as of ${result.ledgerBalance.asOf}.` : ".")
+                        : "."),
+            };
+            const statement: StatementHeader = {
+                accountNumber: result.account ? maskAccountNumber(result.account) : undefined,
+                accountType: result.kind === "credit_card" ? "Credit card" : undefined,
+                periodFrom: result.from,
+                periodTo: result.to,
+                closingBalance: result.ledgerBalance?.amount,
+            };
+            return reply({ ok: true, txns, meta, insights: buildInsights(txns), statement });
+        } catch (err: unknown) {
+            if (err instanceof ImportError) {
+                return reply(toImportFail("OFX", err), 422);
+            }
+            throw err;
+        }
+    }
+
+    // ---------------- QIF ----------------
+    if (ft === "qif") {
+        try {
+            const result = importQif(new Uint8Array(await file.arrayBuffer()));
+            const txns = toApiTxns(result.txns, "qif-v1");
+            const meta: AnalyzeMeta = {
+                fileType: "qif",
+                statementKind: result.kind,
+                note: `QIF parsed: ${txns.length} transactions from a "${result.accountType}" register.`,
+            };
+            return reply({ ok: true, txns, meta, insights: buildInsights(txns) });
+        } catch (err: unknown) {
+            if (err instanceof ImportError) {
+                return reply(toImportFail("QIF", err), 422);
+            }
+            throw err;
+        }
+    }
+
+    // ---------------- CAMT.053 / MT940 ----------------
+    if (ft === "camt053" || ft === "mt940") {
+        const format = ft === "camt053" ? "CAMT.053" : "MT940";
+        try {
+            const bytes = new Uint8Array(await file.arrayBuffer());
+            const result: StatementImportResult = ft === "camt053" ? importCamt053(bytes) : importMt940(bytes);
+            const txns = toApiTxns(result.txns, ft === "camt053" ? "camt053-v1" : "mt940-v1");
+            const { openingBalance, closingBalance } = result;
+            const meta: AnalyzeMeta = {
+                fileType: ft,
+                statementKind: "savings",
+                openingBalance,
+                closingBalance,
+                ledgerBalance: closingBalance,
+                note:
+                    `${format} parsed: ${txns.length} transactions` +
+                    (result.account ? ` for account ${result.account}` : "") +
+                    (openingBalance && closingBalance
+                        ? `, balance ${openingBalance.amount.toFixed(2)} → ${closingBalance.amount.toFixed(2)} ${result.currency}.`
+                        : "."),
+            };
+            const statement: StatementHeader = {
+                accountNumber: result.account ? maskAccountNumber(result.account) : undefined,
+                periodFrom: openingBalance?.asOf,
+                periodTo: closingBalance?.asOf,
+                openingBalance: openingBalance?.amount,
+                closingBalance: closingBalance?.amount,
+            };
+            return reply({ ok: true, txns, meta, insights: buildInsights(txns), statement });
+        } catch (err: unknown) {
+            if (err instanceof ImportError) {
+                return reply(toImportFail(format, err), 422);
+            }
+            throw err;
+        }
+    }
+
+    // ---------------- IMAGE(S) ----------------
+    // Several images in one upload are pages of the same statement, in upload order.
+    if (ft === "image") {
+        const ocrProvider = getOcrProvider();
+        if (!ocrProvider) {
+            return reply({
                 ok: true,
                 txns: [],
                 insights: buildInsights([]),
                 meta: {
                     fileType: "image",
-                    note: "MVP: Image OCR next (Google Vision API key works here directly).",
+                    pageCount: files.length,
+                    requiresOcr: true,
+                    note: "Image statement detected but OCR is disabled (OCR_PROVIDER=none).",
                 },
             });
         }
 
-        return NextResponse.json<ApiResponse>(
-            { ok: false, message: "Unsupported file type. Upload PDF, CSV, JPG, or PNG." },
-            { status: 415 }
+        const images = await Promise.all(files.map(async (f) => Buffer.from(await f.arrayBuffer())));
+        const cache: CacheUsage = { ocrHits: 0, ocrMisses: 0 };
+        const ocr = await ocrImagePages(ocrProvider, images, cache);
+        const parsed = parseTransactionsFromText(ocr.text, undefined, debug);
+        const { txns, parserId: parserUsed } = parsed;
+
+        const meta: AnalyzeMeta = {
+            fileType: "image",
+            statementKind: parsed.kind,
+            pageCount: files.length,
+            openingBalance: headerBalance(parsed.statement.openingBalance, parsed.statement.periodFrom),
+            closingBalance: headerBalance(parsed.statement.closingBalance, parsed.statement.periodTo),
+            parseWarnings: parsed.warnings.length > 0 ? parsed.warnings : undefined,
+            requiresOcr: true,
+            ocrProvider: ocrProvider.id,
+            ocrChars: ocr.chars,
+            ocrConfidence: ocr.confidence,
+            cache: cacheEnabled() ? cache : undefined,
+            note:
+                ocr.chars === 0
+                    ? "OCR found no text in the uploaded image(s)."
+                    : txns.length > 0
+                      ? `OCR processed ${files.length} image page(s). Parsed ${txns.length} transactions using parser ${parserUsed}.`
+                      : `OCR processed ${files.length} image page(s) but no transaction rows were matched. Mark the layout to teach the parser.`,
+        };
+        return reply({
+            ok: true,
+            txns,
+            meta,
+            insights: buildInsights(txns),
+            card: parsed.card,
+            statement: parsed.statement,
+            teach: txns.length === 0 && ocr.chars > 0 ? teachSample(ocr.text) : undefined,
+            debug: parsed.diagnostics && { textSource: "ocr", ...parsed.diagnostics },
+        });
+    }
+
+    return reply(
+        { ok: false, message: "Unsupported file type. Upload PDF, CSV/TSV, XLSX/XLS, OFX/QFX, QIF, CAMT.053 XML, MT940, JPG, or PNG." },
+        415
+    );
+}
+
+export async function POST(req: Request) {
+    try {
+        const form = await req.formData();
+        const files = form.getAll("file").filter((f): f is File => f instanceof File);
+
+        if (files.length === 0) {
+            return NextResponse.json<ApiFail>(
+                { ok: false, message: "Missing file." },
+                { status: 400 }
+            );
+        }
+
+        const passwordRaw = form.get("password");
+        const password =
+            typeof passwordRaw === "string" && passwordRaw.trim().length > 0
+                ? passwordRaw.trim()
+                : undefined;
+        // Debug mode: `debug=1` as a form field or query parameter.
+        const debug = form.get("debug") === "1" || new URL(req.url).searchParams.get("debug") === "1";
+
+        // Several images are pages of one statement; any other multi-file
+        // upload is a run of statements, parsed one by one and merged.
+        if (files.length === 1 || files.every((f) => fileTypeOf(f) === "image")) {
+            const { status, body } = await analyzeStatement(files, password, debug);
+            return NextResponse.json<ApiResponse>(body, { status });
+        }
+
+        // A file with no recognised rows is left out of the merge and named in
+        // a warning, and the first such file's lines come back to teach the
+        // parser; when that is every file, the first one is answered alone.
+        const uploads: UploadedStatement[] = [];
+        const unparsed: UploadedStatement[] = [];
+        for (const f of files) {
+            const { status, body } = await analyzeStatement([f], password, debug);
+            if (!body.ok) {
+                return NextResponse.json<ApiFail>({ ...body, message: `${f.name}: ${body.message}` }, { status });
+            }
+            (body.txns.length > 0 ? uploads : unparsed).push({ fileName: f.name, result: body });
+        }
+        if (uploads.length === 0) {
+            const { fileName, result } = unparsed[0];
+            return NextResponse.json<ApiResponse>({
+                ...result,
+                meta: { ...result.meta, note: `${fileName}: ${result.meta.note ?? "No transactions were recognised."}` },
+                teach: result.teach && { ...result.teach, fileName },
+            });
+        }
+
+        const merged = mergeStatements(uploads);
+        const { txns, statements, gaps, duplicatesRemoved } = merged;
+        const metas = uploads.map((u) => u.result.meta);
+        const sameType = metas.every((m) => m.fileType === metas[0].fileType);
+        const kinds = new Set(metas.map((m) => m.statementKind ?? "savings"));
+
+        const parseWarnings = [
+            ...unparsed.map((u) => `${u.fileName}: no transactions were recognised; it was left out of the merge.`),
+            ...uploads.flatMap((u) => (u.result.meta.parseWarnings ?? []).map((w) => `${u.fileName}: ${w}`)),
+        ];
+
+        const meta: AnalyzeMeta = {
+            fileType: sameType ? metas[0].fileType : "unknown",
+            statementKind: kinds.size === 1 ? metas[0].statementKind : undefined,
+            pageCount: metas.reduce((sum, m) => sum + (m.pageCount ?? 0), 0) || undefined,
+            openingBalance: merged.openingBalance,
+            closingBalance: merged.closingBalance,
+            ledgerBalance: merged.closingBalance,
+            statements,
+            gaps,
+            duplicatesRemoved,
+            parseWarnings: parseWarnings.length > 0 ? parseWarnings : undefined,
+            reconciliation: combineReconciliations(
+                statements.flatMap((s) => (s.reconciliation ? [s.reconciliation] : [])),
+                txns
+            ),
+            note:
+                `Merged ${statements.length} statements into ${txns.length} transactions` +
+                (duplicatesRemoved > 0 ? `, removed ${duplicatesRemoved} duplicates in overlapping dates` : "") +
+                (gaps.length > 0
+                    ? `. ${gaps.length} gap(s) in coverage: ${gaps.map((g) => `${g.from} to ${g.to}`).join(", ")}.`
+                    : "."),
+        };
+        const teachable = unparsed.find((u) => u.result.teach);
+        const debugByFile = Object.fromEntries(
+            [...uploads, ...unparsed].flatMap((u) => (u.result.debug ? [[u.fileName, u.result.debug]] : []))
         );
+        return NextResponse.json<ApiResponse>({
+            ok: true,
+            txns,
+            meta,
+            insights: buildInsights(txns),
+            card: merged.card,
+            statement: merged.statement,
+            debugByFile: debug ? debugByFile : undefined,
+            teach: teachable && { ...teachable.result.teach!, fileName: teachable.fileName },
+        });
     } catch (err: unknown) {
         return NextResponse.json<ApiResponse>(
             { ok: false, message: toErrorMessage(err) },
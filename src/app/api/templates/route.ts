@@ -0,0 +1,103 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { NextResponse } from "next/server";
+import { directionProblems, templateFromSample } from "@/lib/parsers/teach";
+import { TemplateError, templateParser } from "@/lib/parsers/template";
+import { saveTemplate } from "@/lib/parsers/template-store";
+import type { TeachRequest, TeachResponse } from "@/lib/types/analyze";
+
+export const runtime = "nodejs";
+
+function isTeachRequest(body: unknown): body is TeachRequest {
+    if (!body || typeof body !== "object") return false;
+    const b = body as Record<string, unknown>;
+    return (
+        typeof b.headerLine === "string" &&
+        typeof b.sampleLine === "string" &&
+        Array.isArray(b.roles) &&
+        Array.isArray(b.lines) &&
+        b.lines.every((l) => typeof l === "string")
+    );
+}
+
+// Saving writes to the server, so it needs the TEMPLATE_TOKEN the operator set,
+// sent as the x-template-token header; without one configured it is off.
+function authorize(req: Request): NextResponse<TeachResponse> | null {
+    const expected = process.env.TEMPLATE_TOKEN;
+    if (!expected) {
+        return NextResponse.json<TeachResponse>(
+            { ok: false, message: "Teaching layouts is disabled on this server (TEMPLATE_TOKEN is not set)." },
+            { status: 403 }
+        );
+    }
+    const digest = (s: string) => createHash("sha256").update(s).digest();
+    if (!timingSafeEqual(digest(req.headers.get("x-template-token") ?? ""), digest(expected))) {
+        return NextResponse.json<TeachResponse>(
+            { ok: false, message: "The access token is not valid." },
+            { status: 401 }
+        );
+    }
+    return null;
+}
+
+// Saves the layout the user marked on an unrecognised statement as a learned
+// bank template. The template is tried on the sample lines first so a
+// mis-marked layout is reported instead of saved.
+export async function POST(req: Request) {
+    const denied = authorize(req);
+    if (denied) return denied;
+
+    let body: unknown;
+    try {
+        body = await req.json();
+    } catch {
+        return NextResponse.json<TeachResponse>({ ok: false, message: "Expected a JSON body." }, { status: 400 });
+    }
+    if (!isTeachRequest(body)) {
+        return NextResponse.json<TeachResponse>(
+            { ok: false, message: "Expected headerLine, sampleLine, roles and lines." },
+            { status: 400 }
+        );
+    }
+
+    try {
+        const { template, file } = templateFromSample(body);
+        const txns = templateParser(template).parse(body.lines.join("\n"));
+        const txnCount = txns.length;
+        if (txnCount === 0) {
+            return NextResponse.json<TeachResponse>(
+                {
+                    ok: false,
+                    message: "The marked layout did not match any transaction line. Check the header line and the marked columns.",
+                },
+                { status: 422 }
+            );
+        }
+        // A layout that gets directions wrong would turn debits into credits
+        // on every later upload, so it is not saved.
+        const problems = directionProblems(template, body, txns);
+        if (problems.length > 0) {
+            return NextResponse.json<TeachResponse>(
+                {
+                    ok: false,
+                    message:
+                        "The marked layout reads amounts in the wrong direction: " +
+                        `${problems.join("; ")}. Check the marked columns.`,
+                },
+                { status: 422 }
+            );
+        }
+        saveTemplate(template, file);
+        return NextResponse.json<TeachResponse>({ ok: true, templateId: template.id, txnCount });
+    } catch (err: unknown) {
+        if (err instanceof TemplateError) {
+            return NextResponse.json<TeachResponse>(
+                { ok: false, message: `Could not build a template: ${err.problems.join("; ")}.` },
+                { status: 422 }
+            );
+        }
+        return NextResponse.json<TeachResponse>(
+            { ok: false, message: err instanceof Error ? err.message : "Unknown error" },
+            { status: 500 }
+        );
+    }
+}
@@ -2,7 +2,29 @@
 
 import { useMemo, useState } from "react";
 import Link from "next/link";
-import type { AnalyzeOk, Txn } from "@/lib/types/analyze";
+import ClassifierPanel, {
+  loadStoredCorrections,
+  loadStoredModel,
+  storeCorrections,
+  storeModel,
+} from "@/components/classifier-panel";
+import ParserDiagnostics from "@/components/parser-diagnostics";
+import RulesManager, { loadStoredRules, storeRules } from "@/components/rules-manager";
+import {
+  classifyTxns,
+  CORRECTION_WEIGHT,
+  correctionKey,
+  emptyModel,
+  learn,
+  mergeModels,
+  seedModel,
+  type ClassifierModel,
+  type Correction,
+} from "@/lib/categorize/classifier";
+import { applyRules, type CategoryRule } from "@/lib/categorize/rules";
+import { normalizeCategory, splitCategory, taxonomyCategories } from "@/lib/categorize/taxonomy";
+import { buildInsights } from "@/lib/ledger/insights";
+import type { AnalyzeOk, BalanceCheck, Txn } from "@/lib/types/analyze";
 
 const PAGE_SIZE = 40;
 
@@ -18,13 +40,50 @@ function formatINR(value: number) {
   }).format(value);
 }
 
+const EMERALD_PILL = "bg-emerald-900/40 text-emerald-300 border-emerald-700/40";
+const AMBER_PILL = "bg-amber-900/40 text-amber-300 border-amber-700/40";
+const SKY_PILL = "bg-sky-900/40 text-sky-300 border-sky-700/40";
+
+// Colour by parent category, so every subcategory of "food" looks alike.
+const PARENT_PILL_CLASS: Record<string, string> = {
+  income: EMERALD_PILL,
+  interest: EMERALD_PILL,
+  refund: EMERALD_PILL,
+  loan: AMBER_PILL,
+  fees: AMBER_PILL,
+  taxes: AMBER_PILL,
+  transfer: SKY_PILL,
+  "card payment": SKY_PILL,
+  cash: "bg-violet-900/40 text-violet-300 border-violet-700/40",
+  food: "bg-orange-900/40 text-orange-300 border-orange-700/40",
+  travel: "bg-cyan-900/40 text-cyan-300 border-cyan-700/40",
+  utilities: "bg-yellow-900/40 text-yellow-300 border-yellow-700/40",
+  shopping: "bg-pink-900/40 text-pink-300 border-pink-700/40",
+  entertainment: "bg-fuchsia-900/40 text-fuchsia-300 border-fuchsia-700/40",
+  health: "bg-teal-900/40 text-teal-300 border-teal-700/40",
+  insurance: "bg-indigo-900/40 text-indigo-300 border-indigo-700/40",
+  investments: "bg-lime-900/40 text-lime-300 border-lime-700/40",
+};
+
 function categoryPillClass(category: string) {
-  const c = category.toLowerCase();
-  if (c.includes("income") || c.includes("interest")) return "bg-emerald-900/40 text-emerald-300 border-emerald-700/40";
-  if (c.includes("loan") || c.includes("fees")) return "bg-amber-900/40 text-amber-300 border-amber-700/40";
-  if (c.includes("transfer")) return "bg-sky-900/40 text-sky-300 border-sky-700/40";
-  if (c.includes("cash")) return "bg-violet-900/40 text-violet-300 border-violet-700/40";
-  return "bg-slate-800/70 text-slate-200 border-slate-700";
+  const { parent } = splitCategory(category.toLowerCase());
+  return PARENT_PILL_CLASS[parent] ?? "bg-slate-800/70 text-slate-200 border-slate-700";
+}
+
+function balanceCheckLabel(check: BalanceCheck | undefined) {
+  if (check === "mismatch") return "Printed balance does not match the running balance";
+  if (check === "flipped_sign") return "Sign corrected from the running balance";
+  if (check === "swapped_columns") return "Amount and balance columns were swapped; corrected";
+  return undefined;
+}
+
+// Fields besides the description that the explorer search looks at.
+function searchableText(t: Txn) {
+  const party = t.counterparty;
+  return [t.merchant, t.upi?.name, t.upi?.vpa, t.upi?.ref, party?.name, party?.account, party?.reference, ...(t.tags ?? [])]
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase();
 }
 
 function txnToCsvRow(t: Txn) {
@@ -47,29 +106,83 @@ export default function AnalysisDashboard({ data }: Props) {
   const [month, setMonth] = useState("all");
   const [minAmount, setMinAmount] = useState("");
   const [page, setPage] = useState(1);
+  const [rules, setRules] = useState<CategoryRule[]>(loadStoredRules);
+  const [learned, setLearned] = useState<ClassifierModel>(loadStoredModel);
+  const [corrections, setCorrections] = useState<Record<string, Correction>>(loadStoredCorrections);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const reconciliation = data.meta.reconciliation;
+  const statement = data.statement;
+  const accountLine = statement
+    ? [statement.bankName, statement.accountType, statement.accountNumber && `A/c ${statement.accountNumber}`]
+        .filter(Boolean)
+        .join(" • ")
+    : "";
+  const detailLine = statement
+    ? [
+        statement.accountHolder,
+        statement.periodFrom && statement.periodTo ? `${statement.periodFrom} to ${statement.periodTo}` : undefined,
+        statement.branch,
+        statement.ifsc && `IFSC ${statement.ifsc}`,
+        statement.openingBalance !== undefined ? `Opening ${formatINR(statement.openingBalance)}` : undefined,
+        statement.closingBalance !== undefined ? `Closing ${formatINR(statement.closingBalance)}` : undefined,
+      ]
+        .filter(Boolean)
+        .join(" • ")
+    : "";
 
+  const model = useMemo(() => mergeModels(seedModel(), learned), [learned]);
+
+  // Categories are re-derived from the transactions as uploaded, so the stored
+  // analysis stays untouched: rules first, the model for what they leave coarse,
+  // and the user's own correction of a transaction over both.
+  const txns = useMemo(
+    () =>
+      classifyTxns(applyRules(data.txns, rules), model).map((t): Txn => {
+        const correction = corrections[correctionKey(t)];
+        return correction ? { ...t, category: correction.category, confidence: 1, categorySource: "correction" } : t;
+      }),
+    [corrections, data.txns, model, rules]
+  );
+  const insights = useMemo(
+    () => (txns === data.txns ? data.insights : buildInsights(txns)),
+    [data.insights, data.txns, txns]
+  );
+
+  const ruleHits = useMemo(() => {
+    const hits = new Map<string, number>();
+    for (const t of txns) if (t.ruleId) hits.set(t.ruleId, (hits.get(t.ruleId) ?? 0) + 1);
+    return hits;
+  }, [txns]);
+
+  // Parents are listed too and match all of their subcategories.
   const categories = useMemo(
-    () => ["all", ...Array.from(new Set(data.txns.map((t) => t.category))).sort()],
-    [data.txns]
+    () => ["all", ...Array.from(new Set(txns.flatMap((t) => [splitCategory(t.category).parent, t.category]))).sort()],
+    [txns]
+  );
+
+  const ruleCategories = useMemo(
+    () => Array.from(new Set([...taxonomyCategories(), ...categories.slice(1)])),
+    [categories]
   );
 
   const months = useMemo(
-    () => ["all", ...Array.from(new Set(data.txns.map((t) => t.date.slice(0, 7)))).sort()],
-    [data.txns]
+    () => ["all", ...Array.from(new Set(txns.map((t) => t.date.slice(0, 7)))).sort()],
+    [txns]
   );
 
   const filteredTxns = useMemo(() => {
     const min = Number(minAmount);
-    return data.txns.filter((t) => {
-      if (query && !t.description.toLowerCase().includes(query.toLowerCase())) return false;
-      if (category !== "all" && t.category !== category) return false;
+    const q = query.toLowerCase();
+    return txns.filter((t) => {
+      if (q && !t.description.toLowerCase().includes(q) && !searchableText(t).includes(q)) return false;
+      if (category !== "all" && t.category !== category && splitCategory(t.category).parent !== category) return false;
       if (direction === "credit" && t.amount <= 0) return false;
       if (direction === "debit" && t.amount >= 0) return false;
       if (month !== "all" && !t.date.startsWith(month)) return false;
       if (Number.isFinite(min) && min > 0 && Math.abs(t.amount) < min) return false;
       return true;
     });
-  }, [category, data.txns, direction, minAmount, month, query]);
+  }, [category, direction, minAmount, month, query, txns]);
 
   const sortedTxns = useMemo(() => {
     return [...filteredTxns].sort((a, b) => {
@@ -82,7 +195,41 @@ export default function AnalysisDashboard({ data }: Props) {
   const currentPage = Math.min(page, totalPages);
   const pageTxns = sortedTxns.slice((currentPage - 1) * PAGE_SIZE, currentPage * PAGE_SIZE);
 
-  const maxCategoryTotal = Math.max(1, ...data.insights.categoryBreakdown.map((c) => c.total));
+  const maxCategoryTotal = Math.max(1, ...insights.categoryBreakdown.map((c) => c.total));
+
+  function updateRules(next: CategoryRule[]) {
+    setRules(next);
+    storeRules(next);
+    setPage(1);
+  }
+
+  // The model unlearns the previous correction of the same transaction, if any,
+  // against the narration it was trained on, so changing one's mind does not
+  // leave both categories trained.
+  function correctCategory(t: Txn, input: string) {
+    const category = normalizeCategory(input);
+    if (!category || category === t.category) return;
+    const key = correctionKey(t);
+    const previous = corrections[key];
+    const unlearned = previous ? learn(learned, previous.text, previous.category, -CORRECTION_WEIGHT) : learned;
+    const nextModel = learn(unlearned, t.description, category, CORRECTION_WEIGHT);
+    const nextCorrections = { ...corrections, [key]: { category, text: t.description } };
+    setLearned(nextModel);
+    storeModel(nextModel);
+    setCorrections(nextCorrections);
+    storeCorrections(nextCorrections);
+  }
+
+  function updateLearned(next: ClassifierModel) {
+    setLearned(next);
+    storeModel(next);
+  }
+
+  function forgetLearned() {
+    updateLearned(emptyModel());
+    setCorrections({});
+    storeCorrections({});
+  }
 
   function exportCsv() {
     const header = "id,date,description,amount,currency,category,confidence";
@@ -103,7 +250,9 @@ export default function AnalysisDashboard({ data }: Props) {
         <header className="flex flex-wrap items-center justify-between gap-3">
           <div>
             <h1 className="text-2xl sm:text-3xl font-semibold">Detailed Statement Analysis</h1>
-            <p className="text-sm text-slate-300">
+            {accountLine && <p className="text-sm text-slate-200">{accountLine}</p>}
+            {detailLine && <p className="text-xs text-slate-400">{detailLine}</p>}
+            <p className={accountLine ? "text-xs text-slate-500" : "text-sm text-slate-300"}>
               {data.uploadedFileName ? `File: ${data.uploadedFileName}` : "Uploaded statement"}
               {data.uploadedAtIso ? ` • ${new Date(data.uploadedAtIso).toLocaleString()}` : ""}
             </p>
@@ -124,35 +273,35 @@ export default function AnalysisDashboard({ data }: Props) {
         <section className="grid grid-cols-2 md:grid-cols-4 xl:grid-cols-8 gap-2 text-xs">
           <div className="rounded-lg border border-slate-800 bg-slate-900/50 p-3">
             <div className="text-slate-400">Transactions</div>
-            <div className="text-lg text-slate-100">{data.insights.transactionCount}</div>
+            <div className="text-lg text-slate-100">{insights.transactionCount}</div>
           </div>
           <div className="rounded-lg border border-slate-800 bg-slate-900/50 p-3">
             <div className="text-slate-400">Paid</div>
-            <div className="text-lg text-rose-300">{formatINR(data.insights.totalDebits)}</div>
+            <div className="text-lg text-rose-300">{formatINR(insights.totalDebits)}</div>
           </div>
           <div className="rounded-lg border border-slate-800 bg-slate-900/50 p-3">
             <div className="text-slate-400">Received</div>
-            <div className="text-lg text-emerald-300">{formatINR(data.insights.totalCredits)}</div>
+            <div className="text-lg text-emerald-300">{formatINR(insights.totalCredits)}</div>
           </div>
           <div className="rounded-lg border border-slate-800 bg-slate-900/50 p-3">
             <div className="text-slate-400">Net</div>
-            <div className={`text-lg ${data.insights.netFlow >= 0 ? "text-emerald-300" : "text-rose-300"}`}>
-              {formatINR(data.insights.netFlow)}
+            <div className={`text-lg ${insights.netFlow >= 0 ? "text-emerald-300" : "text-rose-300"}`}>
+              {formatINR(insights.netFlow)}
             </div>
           </div>
           <div className="rounded-lg border border-slate-800 bg-slate-900/50 p-3">
             <div className="text-slate-400">Income/Expense</div>
             <div className="text-lg text-slate-100">
-              {data.insights.incomeExpenseRatio === null ? "N/A" : data.insights.incomeExpenseRatio.toFixed(2)}
+              {insights.incomeExpenseRatio === null ? "N/A" : insights.incomeExpenseRatio.toFixed(2)}
             </div>
           </div>
           <div className="rounded-lg border border-slate-800 bg-slate-900/50 p-3">
             <div className="text-slate-400">Avg Debit</div>
-            <div className="text-lg text-slate-100">{formatINR(data.insights.avgDebit)}</div>
+            <div className="text-lg text-slate-100">{formatINR(insights.avgDebit)}</div>
           </div>
           <div className="rounded-lg border border-slate-800 bg-slate-900/50 p-3">
             <div className="text-slate-400">Avg Credit</div>
-            <div className="text-lg text-slate-100">{formatINR(data.insights.avgCredit)}</div>
+            <div className="text-lg text-slate-100">{formatINR(insights.avgCredit)}</div>
           </div>
           <div className="rounded-lg border border-slate-800 bg-slate-900/50 p-3">
             <div className="text-slate-400">Pages</div>
@@ -160,10 +309,148 @@ export default function AnalysisDashboard({ data }: Props) {
           </div>
         </section>
 
+        {data.meta.parseWarnings && data.meta.parseWarnings.length > 0 && (
+          <section className="rounded-xl border border-amber-700/40 bg-amber-950/10 p-4 space-y-2">
+            <h2 className="text-sm text-amber-200">Parse Warnings</h2>
+            <ul className="list-disc pl-5 space-y-1 text-xs text-amber-100/80">
+              {data.meta.parseWarnings.map((w, i) => (
+                <li key={i}>{w}</li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {data.card && (
+          <section className="rounded-xl border border-slate-800 bg-slate-900/40 p-4 space-y-3">
+            <h2 className="text-sm text-slate-300">Credit Card Summary</h2>
+            <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-6 gap-2 text-xs">
+              <div className="rounded-lg border border-rose-800/40 bg-rose-950/20 p-3">
+                <div className="text-slate-400">Total Due</div>
+                <div className="text-lg text-rose-300">
+                  {data.card.totalDue === undefined ? "N/A" : formatINR(data.card.totalDue)}
+                </div>
+              </div>
+              <div className="rounded-lg border border-slate-800 bg-slate-900/50 p-3">
+                <div className="text-slate-400">Minimum Due</div>
+                <div className="text-lg text-amber-300">
+                  {data.card.minimumDue === undefined ? "N/A" : formatINR(data.card.minimumDue)}
+                </div>
+              </div>
+              <div className="rounded-lg border border-slate-800 bg-slate-900/50 p-3">
+                <div className="text-slate-400">Due Date</div>
+                <div className="text-lg text-slate-100">{data.card.dueDate ?? "N/A"}</div>
+              </div>
+              <div className="rounded-lg border border-slate-800 bg-slate-900/50 p-3">
+                <div className="text-slate-400">Credit Limit</div>
+                <div className="text-lg text-slate-100">
+                  {data.card.creditLimit === undefined ? "N/A" : formatINR(data.card.creditLimit)}
+                </div>
+              </div>
+              <div className="rounded-lg border border-slate-800 bg-slate-900/50 p-3">
+                <div className="text-slate-400">Available Credit</div>
+                <div className="text-lg text-emerald-300">
+                  {data.card.availableCredit === undefined ? "N/A" : formatINR(data.card.availableCredit)}
+                </div>
+              </div>
+              <div className="rounded-lg border border-slate-800 bg-slate-900/50 p-3">
+                <div className="text-slate-400">Reward Points</div>
+                <div className="text-lg text-slate-100">
+                  {data.card.rewardPoints === undefined ? "N/A" : data.card.rewardPoints.toLocaleString("en-IN")}
+                </div>
+              </div>
+            </div>
+            {data.card.statementDate && (
+              <p className="text-xs text-slate-400">Statement date {data.card.statementDate}</p>
+            )}
+          </section>
+        )}
+
+        {data.meta.statements && data.meta.statements.length > 1 && (
+          <section className="rounded-xl border border-slate-800 bg-slate-900/40 p-4 space-y-3">
+            <h2 className="text-sm text-slate-300">Merged Statements</h2>
+            <ul className="space-y-2 text-sm">
+              {data.meta.statements.map((s) => (
+                <li key={s.fileName} className="flex flex-wrap items-center justify-between gap-2">
+                  <span className="text-slate-200">{s.fileName}</span>
+                  <span className="text-xs text-slate-400">
+                    {s.from && s.to ? `${s.from} to ${s.to}` : "no dated rows"} • {s.txnCount} transactions
+                    {s.duplicatesRemoved > 0 ? ` • ${s.duplicatesRemoved} duplicates removed` : ""}
+                    {s.reconciliation && s.reconciliation.status !== "skipped"
+                      ? ` • balance check ${s.reconciliation.status}`
+                      : ""}
+                  </span>
+                </li>
+              ))}
+            </ul>
+            {data.meta.gaps && data.meta.gaps.length > 0 && (
+              <div className="space-y-1">
+                {data.meta.gaps.map((g) => (
+                  <p key={`${g.from}-${g.to}`} className="text-xs text-amber-300">
+                    Gap: no statement covers {g.from} to {g.to} ({g.days} days) between {g.afterFile} and{" "}
+                    {g.beforeFile}.
+                  </p>
+                ))}
+              </div>
+            )}
+          </section>
+        )}
+
+        {reconciliation && reconciliation.status !== "skipped" && (
+          <section className="rounded-xl border border-slate-800 bg-slate-900/40 p-4 space-y-3">
+            <h2 className="text-sm text-slate-300">Balance Integrity</h2>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-2 text-xs">
+              <div
+                className={`rounded-lg border p-3 ${
+                  reconciliation.status === "pass"
+                    ? "border-emerald-700/50 bg-emerald-950/20"
+                    : "border-rose-700/50 bg-rose-950/20"
+                }`}
+              >
+                <div className="text-slate-400">Running Balance</div>
+                <div
+                  className={`text-lg uppercase ${reconciliation.status === "pass" ? "text-emerald-300" : "text-rose-300"}`}
+                >
+                  {reconciliation.status}
+                </div>
+              </div>
+              <div className="rounded-lg border border-slate-800 bg-slate-900/50 p-3">
+                <div className="text-slate-400">Rows Checked</div>
+                <div className="text-lg text-slate-100">{reconciliation.checkedRows}</div>
+              </div>
+              <div className="rounded-lg border border-slate-800 bg-slate-900/50 p-3">
+                <div className="text-slate-400">Mismatches</div>
+                <div className={`text-lg ${reconciliation.mismatches > 0 ? "text-rose-300" : "text-slate-100"}`}>
+                  {reconciliation.mismatches}
+                </div>
+              </div>
+              <div className="rounded-lg border border-slate-800 bg-slate-900/50 p-3">
+                <div className="text-slate-400">Auto-fixed</div>
+                <div className={`text-lg ${reconciliation.fixedIds.length > 0 ? "text-amber-300" : "text-slate-100"}`}>
+                  {reconciliation.fixedIds.length}
+                </div>
+              </div>
+              <div className="rounded-lg border border-slate-800 bg-slate-900/50 p-3">
+                <div className="text-slate-400">Confidence</div>
+                <div className="text-lg text-slate-100">{(reconciliation.confidence * 100).toFixed(0)}%</div>
+              </div>
+            </div>
+            {reconciliation.closingDifference !== undefined && reconciliation.closingDifference !== 0 && (
+              <p className="text-xs text-rose-300">
+                Rebuilt closing balance is off by {formatINR(reconciliation.closingDifference)} from the printed{" "}
+                {reconciliation.closingBalance === undefined ? "closing balance" : formatINR(reconciliation.closingBalance)}
+                .
+              </p>
+            )}
+            {reconciliation.mismatches > 0 && (
+              <p className="text-xs text-slate-400">Rows that do not reconcile are highlighted in the explorer below.</p>
+            )}
+          </section>
+        )}
+
         <section className="grid grid-cols-1 xl:grid-cols-2 gap-4">
           <div className="rounded-xl border border-slate-800 bg-slate-900/40 p-4 space-y-3">
             <h2 className="text-sm text-slate-300">Category Breakdown</h2>
-            {data.insights.categoryBreakdown.slice(0, 10).map((c) => (
+            {insights.categoryBreakdown.slice(0, 10).map((c) => (
               <div key={c.category} className="space-y-1">
                 <div className="flex items-center justify-between text-xs">
                   <span className={`rounded border px-2 py-0.5 capitalize ${categoryPillClass(c.category)}`}>{c.category}</span>
@@ -176,6 +463,21 @@ export default function AnalysisDashboard({ data }: Props) {
                     style={{ width: `${Math.min(100, (c.total / maxCategoryTotal) * 100)}%` }}
                   />
                 </div>
+                {c.subcategories?.map((s) => (
+                  <div key={s.category} className="ml-4 space-y-1">
+                    <div className="flex items-center justify-between text-[11px] text-slate-400">
+                      <span className="capitalize">{splitCategory(s.category).child}</span>
+                      <span>{s.count} txns</span>
+                      <span className="text-slate-200">{formatINR(s.total)}</span>
+                    </div>
+                    <div className="h-1 rounded bg-slate-800">
+                      <div
+                        className="h-1 rounded bg-sky-700"
+                        style={{ width: `${Math.min(100, (s.total / maxCategoryTotal) * 100)}%` }}
+                      />
+                    </div>
+                  </div>
+                ))}
               </div>
             ))}
           </div>
@@ -188,7 +490,7 @@ export default function AnalysisDashboard({ data }: Props) {
               <div className="text-right">Expense</div>
               <div className="text-right">Net</div>
             </div>
-            {data.insights.monthOverMonth.map((m) => (
+            {insights.monthOverMonth.map((m) => (
               <div key={m.month} className="grid grid-cols-4 text-xs border border-slate-800 rounded px-2 py-2">
                 <div className="text-slate-200">{m.month}</div>
                 <div className="text-emerald-300 text-right">{formatINR(m.income)}</div>
@@ -202,10 +504,10 @@ export default function AnalysisDashboard({ data }: Props) {
         <section className="grid grid-cols-1 xl:grid-cols-2 gap-4">
           <div className="rounded-xl border border-slate-800 bg-slate-900/40 p-4 space-y-3">
             <h2 className="text-sm text-slate-300">Subscription Detection</h2>
-            {data.insights.subscriptions.length === 0 && (
+            {insights.subscriptions.length === 0 && (
               <p className="text-xs text-slate-400">No recurring patterns detected yet.</p>
             )}
-            {data.insights.subscriptions.map((s) => (
+            {insights.subscriptions.map((s) => (
               <div key={s.merchant} className="flex items-center justify-between border border-slate-800 rounded p-2 text-xs">
                 <div className="text-slate-200">{s.merchant}</div>
                 <div className="text-slate-400">{s.count}x</div>
@@ -217,10 +519,10 @@ export default function AnalysisDashboard({ data }: Props) {
 
           <div className="rounded-xl border border-slate-800 bg-slate-900/40 p-4 space-y-3">
             <h2 className="text-sm text-slate-300">Unusual Spend Alerts</h2>
-            {data.insights.unusualSpends.length === 0 && (
+            {insights.unusualSpends.length === 0 && (
               <p className="text-xs text-slate-400">No unusual spends detected.</p>
             )}
-            {data.insights.unusualSpends.map((u) => (
+            {insights.unusualSpends.map((u) => (
               <div key={u.id} className="grid grid-cols-4 gap-2 border border-rose-800/40 bg-rose-950/20 rounded p-2 text-xs">
                 <div className="text-slate-300">{u.date}</div>
                 <div className="text-slate-200 col-span-2 truncate">{u.description}</div>
@@ -230,12 +532,60 @@ export default function AnalysisDashboard({ data }: Props) {
           </div>
         </section>
 
+        {insights.counterparties && insights.counterparties.length > 0 && (
+          <section className="rounded-xl border border-slate-800 bg-slate-900/40 p-4 space-y-3">
+            <h2 className="text-sm text-slate-300">Counterparties</h2>
+            <div className="grid grid-cols-5 text-[11px] uppercase tracking-wide text-slate-400 border border-slate-800 rounded px-2 py-2 bg-slate-900/60">
+              <div className="col-span-2">Name</div>
+              <div className="text-right">Paid</div>
+              <div className="text-right">Received</div>
+              <div className="text-right">Last</div>
+            </div>
+            {insights.counterparties.slice(0, 10).map((c) => (
+              <button
+                key={c.name}
+                className="grid w-full grid-cols-5 text-left text-xs border border-slate-800 rounded px-2 py-2 hover:bg-slate-800/60"
+                title="Show these transactions in the explorer"
+                onClick={() => {
+                  setQuery(c.name);
+                  setPage(1);
+                }}
+              >
+                <div className="col-span-2 truncate text-slate-200">
+                  {c.name}
+                  <span className="ml-2 text-slate-500">
+                    {c.count}x {c.rails.join("/")}
+                  </span>
+                </div>
+                <div className="text-right text-rose-300">{c.paid > 0 ? formatINR(c.paid) : "-"}</div>
+                <div className="text-right text-emerald-300">{c.received > 0 ? formatINR(c.received) : "-"}</div>
+                <div className="text-right text-slate-400">{c.lastDate}</div>
+              </button>
+            ))}
+          </section>
+        )}
+
+        <RulesManager rules={rules} hits={ruleHits} categories={ruleCategories} onChange={updateRules} />
+
+        <ClassifierPanel
+          model={learned}
+          correctionCount={Object.keys(corrections).length}
+          predictedCount={txns.filter((t) => t.categorySource === "model").length}
+          onModelChange={updateLearned}
+          onReset={forgetLearned}
+        />
+
         <section className="rounded-xl border border-slate-800 bg-slate-900/40 p-4 space-y-3">
           <h2 className="text-sm text-slate-300">Transaction Explorer</h2>
+          <datalist id="category-options">
+            {ruleCategories.map((c) => (
+              <option key={c} value={c} />
+            ))}
+          </datalist>
           <div className="grid grid-cols-1 md:grid-cols-5 gap-2">
             <input
               className="rounded border border-slate-700 bg-slate-900 px-2 py-2 text-sm"
-              placeholder="Search description"
+              placeholder="Search description, counterparty, VPA or tag"
               value={query}
               onChange={(e) => {
                 setQuery(e.target.value);
@@ -309,13 +659,70 @@ export default function AnalysisDashboard({ data }: Props) {
               </thead>
               <tbody>
                 {pageTxns.map((t) => (
-                  <tr key={t.id} className="border-t border-slate-800">
+                  <tr
+                    key={t.id}
+                    className={`border-t border-slate-800 ${t.balanceCheck === "mismatch" ? "bg-rose-950/40" : ""}`}
+                    title={balanceCheckLabel(t.balanceCheck)}
+                  >
                     <td className="px-2 py-2 text-slate-300">{t.date}</td>
-                    <td className="px-2 py-2 text-slate-200">{t.description}</td>
+                    <td className="px-2 py-2 text-slate-200">
+                      {t.description}
+                      {t.tags && t.tags.length > 0 && (
+                        <span className="ml-2 text-[11px] text-slate-400">{t.tags.map((tag) => `#${tag}`).join(" ")}</span>
+                      )}
+                      {t.upi ? (
+                        <div className="text-[11px] text-slate-400">
+                          {["UPI", t.upi.name, t.upi.vpa, t.upi.psp, t.upi.remark].filter(Boolean).join(" • ")}
+                        </div>
+                      ) : (
+                        t.counterparty && (
+                          <div className="text-[11px] text-slate-400">
+                            {[
+                              t.counterparty.rail,
+                              t.counterparty.name,
+                              t.counterparty.account && `A/c ${t.counterparty.account}`,
+                              t.counterparty.bankCode ?? t.counterparty.bank,
+                              t.counterparty.mandate && `Mandate ${t.counterparty.mandate}`,
+                            ]
+                              .filter(Boolean)
+                              .join(" • ")}
+                          </div>
+                        )
+                      )}
+                    </td>
                     <td className="px-2 py-2">
-                      <span className={`rounded border px-2 py-0.5 capitalize ${categoryPillClass(t.category)}`}>
-                        {t.category}
-                      </span>
+                      {editingId === t.id ? (
+                        <input
+                          autoFocus
+                          className="w-40 rounded border border-slate-600 bg-slate-900 px-2 py-0.5 text-xs"
+                          list="category-options"
+                          defaultValue={t.category}
+                          onKeyDown={(e) => {
+                            if (e.key === "Escape") e.currentTarget.value = t.category;
+                            if (e.key === "Enter" || e.key === "Escape") e.currentTarget.blur();
+                          }}
+                          onBlur={(e) => {
+                            correctCategory(t, e.currentTarget.value);
+                            setEditingId(null);
+                          }}
+                        />
+                      ) : (
+                        <button
+                          className={`rounded border px-2 py-0.5 capitalize ${categoryPillClass(t.category)} ${
+                            t.categorySource === "model" ? "border-dashed" : ""
+                          }`}
+                          title={
+                            t.categorySource === "model"
+                              ? "Predicted by the local model; click to correct"
+                              : t.categorySource === "correction"
+                                ? "Corrected by you; click to change"
+                                : "Click to correct"
+                          }
+                          onClick={() => setEditingId(t.id)}
+                        >
+                          {t.category}
+                        </button>
+                      )}
                     </td>
                     <td className="px-2 py-2">
                       {(() => {
@@ -338,7 +745,13 @@ export default function AnalysisDashboard({ data }: Props) {
                       {(t.drCr ?? (t.amount >= 0 ? "CR" : "DR")) === "CR" ? "+" : "-"}
                       {formatINR(Math.abs(t.amount))}
                     </td>
-                    <td className="px-2 py-2 text-right text-slate-400">{(t.confidence * 100).toFixed(0)}%</td>
+                    <td className="px-2 py-2 text-right text-slate-400">
+                      {(t.confidence * 100).toFixed(0)}%
+                      {t.balanceCheck === "mismatch" && <span className="ml-1 text-rose-300">!</span>}
+                      {(t.balanceCheck === "flipped_sign" || t.balanceCheck === "swapped_columns") && (
+                        <span className="ml-1 text-amber-300">*</span>
+                      )}
+                    </td>
                   </tr>
                 ))}
               </tbody>
@@ -364,6 +777,11 @@ export default function AnalysisDashboard({ data }: Props) {
           </div>
         </section>
 
+        {data.debug && <ParserDiagnostics diagnostics={data.debug} />}
+        {Object.entries(data.debugByFile ?? {}).map(([fileName, diagnostics]) => (
+          <ParserDiagnostics key={fileName} diagnostics={diagnostics} fileName={fileName} />
+        ))}
+
         <section className="rounded-xl border border-slate-800 bg-slate-900/40 p-4 space-y-2">
           <h2 className="text-sm text-slate-300">Meta</h2>
           <pre className="text-xs overflow-auto whitespace-pre-wrap rounded-lg border border-slate-800 bg-slate-900/60 p-3 text-slate-200">
@@ -0,0 +1,142 @@
+"use client";
+
+import { useState } from "react";
+import {
+  ClassifierError,
+  emptyModel,
+  mergeModels,
+  validateModel,
+  type ClassifierModel,
+  type Correction,
+} from "@/lib/categorize/classifier";
+
+const MODEL_STORAGE_KEY = "category_model_v1";
+const CORRECTIONS_STORAGE_KEY = "category_corrections_v2";
+
+// The learned model and the corrections it came from live in this browser only;
+// anything unreadable starts over empty.
+export function loadStoredModel(): ClassifierModel {
+  try {
+    const raw = localStorage.getItem(MODEL_STORAGE_KEY);
+    return raw ? validateModel(JSON.parse(raw)) : emptyModel();
+  } catch {
+    return emptyModel();
+  }
+}
+
+export function storeModel(model: ClassifierModel) {
+  try {
+    localStorage.setItem(MODEL_STORAGE_KEY, JSON.stringify(model));
+  } catch {
+    // The model still applies for this session.
+  }
+}
+
+// Corrections by correctionKey, as the user set them.
+export function loadStoredCorrections(): Record<string, Correction> {
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(CORRECTIONS_STORAGE_KEY) ?? "{}");
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) return {};
+    return Object.fromEntries(
+      Object.entries(parsed).filter(
+        (e): e is [string, Correction] =>
+          typeof e[1] === "object" &&
+          e[1] !== null &&
+          typeof e[1].category === "string" &&
+          typeof e[1].text === "string"
+      )
+    );
+  } catch {
+    return {};
+  }
+}
+
+export function storeCorrections(corrections: Record<string, Correction>) {
+  try {
+    localStorage.setItem(CORRECTIONS_STORAGE_KEY, JSON.stringify(corrections));
+  } catch {
+    // Corrections still apply for this session.
+  }
+}
+
+type Props = {
+  model: ClassifierModel;
+  correctionCount: number;
+  predictedCount: number;
+  onModelChange: (model: ClassifierModel) => void;
+  onReset: () => void;
+};
+
+export default function ClassifierPanel({ model, correctionCount, predictedCount, onModelChange, onReset }: Props) {
+  const [problems, setProblems] = useState<string[]>([]);
+  const learnedCategories = Object.keys(model.classes).length;
+
+  // An imported model adds to what was learned here rather than replacing it.
+  async function importFile(file: File) {
+    try {
+      onModelChange(mergeModels(model, validateModel(JSON.parse(await file.text()))));
+      setProblems([]);
+    } catch (err: unknown) {
+      setProblems(err instanceof ClassifierError ? err.problems : [err instanceof Error ? err.message : String(err)]);
+    }
+  }
+
+  function exportFile() {
+    const blob = new Blob([JSON.stringify(model)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "category-model.json";
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  return (
+    <section className="rounded-xl border border-slate-800 bg-slate-900/40 p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-sm text-slate-300">Learned Categories</h2>
+        <div className="flex gap-2 text-xs">
+          <label className="cursor-pointer rounded border border-slate-700 px-3 py-1 hover:bg-slate-800">
+            Import model
+            <input
+              className="hidden"
+              type="file"
+              accept="application/json,.json"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) void importFile(file);
+              }}
+            />
+          </label>
+          <button
+            className="rounded border border-slate-700 px-3 py-1 hover:bg-slate-800 disabled:opacity-40"
+            disabled={learnedCategories === 0}
+            onClick={exportFile}
+          >
+            Export model
+          </button>
+          <button
+            className="rounded border border-rose-800/60 px-3 py-1 text-rose-300 hover:bg-rose-950/40 disabled:opacity-40"
+            disabled={learnedCategories === 0 && correctionCount === 0}
+            onClick={onReset}
+          >
+            Forget
+          </button>
+        </div>
+      </div>
+      <p className="text-xs text-slate-400">
+        Click a category in the explorer to correct it; the local model learns from each correction and fills in
+        transactions no rule or known merchant covers. {correctionCount} corrections • {learnedCategories} learned
+        categories • {predictedCount} transactions predicted here.
+      </p>
+      {problems.length > 0 && (
+        <ul className="list-disc pl-5 space-y-1 rounded-lg border border-red-700/40 bg-red-900/20 p-3 text-xs text-red-200">
+          {problems.map((p, i) => (
+            <li key={i}>{p}</li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,146 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { ParseDiagnostics, ParserAttempt } from "@/lib/types/analyze";
+
+type Props = {
+  diagnostics: ParseDiagnostics;
+  fileName?: string; // set for each file of a merged upload
+};
+
+const TEXT_SOURCES: Record<ParseDiagnostics["textSource"], string> = {
+  text: "PDF text layer",
+  ocr: "OCR text",
+  mixed: "PDF text layer and OCR",
+};
+
+function statusClass(status: ParserAttempt["status"]) {
+  if (status === "chosen") return "text-emerald-300";
+  if (status === "ran") return "text-slate-200";
+  return "text-slate-500";
+}
+
+// Debug-mode panel: which parsers ran and how they scored, where the table
+// was found in the text, and the lines no transaction accounts for.
+export default function ParserDiagnostics({ diagnostics, fileName }: Props) {
+  const [reason, setReason] = useState("all");
+
+  const reasons = useMemo(
+    () => Array.from(new Set(diagnostics.unmatched.map((u) => u.reason))).sort(),
+    [diagnostics.unmatched]
+  );
+  const unmatched = useMemo(
+    () => (reason === "all" ? diagnostics.unmatched : diagnostics.unmatched.filter((u) => u.reason === reason)),
+    [diagnostics.unmatched, reason]
+  );
+  const attempts = useMemo(
+    () => [...diagnostics.attempts].sort((a, b) => b.score - a.score || b.hint - a.hint),
+    [diagnostics.attempts]
+  );
+
+  return (
+    <section className="rounded-xl border border-sky-800/50 bg-slate-900/40 p-4 space-y-4">
+      <div className="flex flex-wrap items-baseline justify-between gap-2">
+        <h2 className="text-sm text-sky-200">Parser Diagnostics{fileName ? ` — ${fileName}` : ""}</h2>
+        <p className="text-xs text-slate-400">
+          {diagnostics.lineCount} lines from the {TEXT_SOURCES[diagnostics.textSource]} •
+          detected as {diagnostics.detectedKind === "credit_card" ? "credit card" : "savings/current"}
+        </p>
+      </div>
+
+      <div className="overflow-auto rounded-lg border border-slate-800">
+        <table className="w-full text-xs">
+          <thead className="bg-slate-900 text-slate-400">
+            <tr>
+              <th className="text-left p-2">Parser</th>
+              <th className="text-left p-2">Kind</th>
+              <th className="text-left p-2">Status</th>
+              <th className="text-right p-2">Hint</th>
+              <th className="text-right p-2">Score</th>
+              <th className="text-right p-2">Txns</th>
+              <th className="text-right p-2">Avg Confidence</th>
+              <th className="text-left p-2">Rows From</th>
+            </tr>
+          </thead>
+          <tbody>
+            {attempts.map((a, i) => (
+              <tr key={`${a.parserId}-${i}`} className="border-t border-slate-800">
+                <td className="p-2 font-mono text-slate-200">{a.parserId}</td>
+                <td className="p-2 text-slate-400">{a.kind}</td>
+                <td className={`p-2 ${statusClass(a.status)}`}>{a.status.replace("_", " ")}</td>
+                <td className="p-2 text-right text-slate-300">{a.hint.toFixed(2)}</td>
+                <td className="p-2 text-right text-slate-300">{a.score.toFixed(1)}</td>
+                <td className="p-2 text-right text-slate-300">{a.txnCount}</td>
+                <td className="p-2 text-right text-slate-300">
+                  {a.avgConfidence === null ? "-" : `${(a.avgConfidence * 100).toFixed(0)}%`}
+                </td>
+                <td className="p-2 text-slate-400">{a.rowsFrom ?? "-"}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="text-xs uppercase tracking-wide text-slate-400">Table Regions</h3>
+        {diagnostics.tableRegions.length === 0 ? (
+          <p className="text-xs text-slate-500">No table region: the chosen parser returned no rows.</p>
+        ) : (
+          <ul className="space-y-1 text-xs">
+            {diagnostics.tableRegions.map((r) => (
+              <li key={r.startLine} className="rounded border border-slate-800 bg-slate-900/50 px-2 py-1">
+                <span className="text-slate-200">
+                  Lines {r.startLine}–{r.endLine}
+                </span>
+                <span className="text-slate-400"> • {r.rows} rows</span>
+                {r.header && <span className="block truncate font-mono text-slate-500">{r.header}</span>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h3 className="text-xs uppercase tracking-wide text-slate-400">
+            Unmatched Lines ({diagnostics.unmatched.length + (diagnostics.unmatchedTruncated ?? 0)})
+          </h3>
+          {reasons.length > 1 && (
+            <select
+              className="rounded-md bg-slate-900 border border-slate-700 px-2 py-1 text-xs"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            >
+              <option value="all">All reasons</option>
+              {reasons.map((r) => (
+                <option key={r} value={r}>
+                  {r}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+        {unmatched.length === 0 ? (
+          <p className="text-xs text-slate-500">Every line in the table regions belongs to a transaction.</p>
+        ) : (
+          <div className="max-h-80 overflow-auto rounded-lg border border-slate-800">
+            <table className="w-full text-xs">
+              <tbody>
+                {unmatched.map((u) => (
+                  <tr key={u.line} className="border-t border-slate-800 first:border-t-0">
+                    <td className="p-2 text-right align-top text-slate-500">{u.line}</td>
+                    <td className="p-2 font-mono text-slate-200 break-all">{u.text}</td>
+                    <td className="p-2 align-top text-amber-300 whitespace-nowrap">{u.reason}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        {diagnostics.unmatchedTruncated !== undefined && (
+          <p className="text-xs text-slate-500">{diagnostics.unmatchedTruncated} more lines not listed.</p>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,386 @@
+"use client";
+
+import { useState } from "react";
+import { exportRules, RuleError, validateRules, type CategoryRule } from "@/lib/categorize/rules";
+
+const RULES_STORAGE_KEY = "category_rules_v1";
+
+// Rules live in this browser only; anything unreadable is treated as no rules.
+export function loadStoredRules(): CategoryRule[] {
+  try {
+    const raw = localStorage.getItem(RULES_STORAGE_KEY);
+    return raw ? validateRules(JSON.parse(raw)) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function storeRules(rules: CategoryRule[]) {
+  try {
+    localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(exportRules(rules)));
+  } catch {
+    // Rules still apply for this session.
+  }
+}
+
+type Props = {
+  rules: CategoryRule[];
+  hits: Map<string, number>;
+  categories: string[];
+  onChange: (rules: CategoryRule[]) => void;
+};
+
+type Draft = {
+  id?: string;
+  name: string;
+  priority: string;
+  narration: string;
+  merchant: string;
+  minAmount: string;
+  maxAmount: string;
+  direction: "" | "credit" | "debit";
+  dateFrom: string;
+  dateTo: string;
+  category: string;
+  setMerchant: string;
+  tags: string;
+};
+
+const EMPTY_DRAFT: Draft = {
+  name: "",
+  priority: "0",
+  narration: "",
+  merchant: "",
+  minAmount: "",
+  maxAmount: "",
+  direction: "",
+  dateFrom: "",
+  dateTo: "",
+  category: "",
+  setMerchant: "",
+  tags: "",
+};
+
+function toDraft(rule: CategoryRule): Draft {
+  const m = rule.match;
+  return {
+    id: rule.id,
+    name: rule.name ?? "",
+    priority: String(rule.priority),
+    narration: m.narration ?? "",
+    merchant: m.merchant ?? "",
+    minAmount: m.minAmount === undefined ? "" : String(m.minAmount),
+    maxAmount: m.maxAmount === undefined ? "" : String(m.maxAmount),
+    direction: m.direction ?? "",
+    dateFrom: m.dateFrom ?? "",
+    dateTo: m.dateTo ?? "",
+    category: rule.set.category,
+    setMerchant: rule.set.merchant ?? "",
+    tags: (rule.set.tags ?? []).join(", "),
+  };
+}
+
+// Empty fields are left out; numbers that do not parse are kept as text so
+// validation reports them instead of dropping the condition.
+function fromDraft(d: Draft, enabled: boolean): unknown {
+  const text = (s: string) => s.trim() || undefined;
+  const num = (s: string) => (s.trim() ? (Number.isFinite(Number(s)) ? Number(s) : s) : undefined);
+  const tags = d.tags
+    .split(",")
+    .map((t) => t.trim())
+    .filter(Boolean);
+  return {
+    id: d.id ?? `rule-${Date.now().toString(36)}`,
+    name: text(d.name),
+    priority: num(d.priority) ?? 0,
+    enabled,
+    match: {
+      narration: text(d.narration),
+      merchant: text(d.merchant),
+      minAmount: num(d.minAmount),
+      maxAmount: num(d.maxAmount),
+      direction: d.direction || undefined,
+      dateFrom: text(d.dateFrom),
+      dateTo: text(d.dateTo),
+    },
+    set: { category: d.category, merchant: text(d.setMerchant), tags: tags.length > 0 ? tags : undefined },
+  };
+}
+
+function describeMatch(rule: CategoryRule) {
+  const m = rule.match;
+  return [
+    m.narration && `narration /${m.narration}/`,
+    m.merchant && `merchant "${m.merchant}"`,
+    m.minAmount !== undefined && `≥ ${m.minAmount}`,
+    m.maxAmount !== undefined && `≤ ${m.maxAmount}`,
+    m.direction,
+    m.dateFrom && `from ${m.dateFrom}`,
+    m.dateTo && `to ${m.dateTo}`,
+  ]
+    .filter(Boolean)
+    .join(" • ");
+}
+
+function problemsOf(err: unknown): string[] {
+  if (err instanceof RuleError) return err.problems;
+  return [err instanceof Error ? err.message : String(err)];
+}
+
+export default function RulesManager({ rules, hits, categories, onChange }: Props) {
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [problems, setProblems] = useState<string[]>([]);
+
+  function field<K extends keyof Draft>(key: K, value: Draft[K]) {
+    setDraft((d) => (d ? { ...d, [key]: value } : d));
+  }
+
+  function saveDraft() {
+    if (!draft) return;
+    const existing = rules.find((r) => r.id === draft.id);
+    try {
+      const [rule] = validateRules([fromDraft(draft, existing?.enabled ?? true)]);
+      onChange(existing ? rules.map((r) => (r.id === rule.id ? rule : r)) : [...rules, rule]);
+      setDraft(null);
+      setProblems([]);
+    } catch (err: unknown) {
+      setProblems(problemsOf(err).map((p) => p.replace(/^rules\[0\]\./, "")));
+    }
+  }
+
+  // Imported rules replace ones with the same id and are added otherwise.
+  async function importFile(file: File) {
+    try {
+      const imported = validateRules(JSON.parse(await file.text()));
+      const ids = new Set(imported.map((r) => r.id));
+      onChange([...rules.filter((r) => !ids.has(r.id)), ...imported]);
+      setProblems([]);
+    } catch (err: unknown) {
+      setProblems(problemsOf(err));
+    }
+  }
+
+  function exportFile() {
+    const blob = new Blob([JSON.stringify(exportRules(rules), null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "category-rules.json";
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  const inputClass = "rounded border border-slate-700 bg-slate-900 px-2 py-2 text-sm";
+
+  return (
+    <section className="rounded-xl border border-slate-800 bg-slate-900/40 p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-sm text-slate-300">Categorization Rules</h2>
+        <div className="flex gap-2 text-xs">
+          <button
+            className="rounded border border-slate-700 px-3 py-1 hover:bg-slate-800"
+            onClick={() => {
+              setDraft({ ...EMPTY_DRAFT });
+              setProblems([]);
+            }}
+          >
+            Add rule
+          </button>
+          <label className="cursor-pointer rounded border border-slate-700 px-3 py-1 hover:bg-slate-800">
+            Import JSON
+            <input
+              className="hidden"
+              type="file"
+              accept="application/json,.json"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) void importFile(file);
+              }}
+            />
+          </label>
+          <button
+            className="rounded border border-slate-700 px-3 py-1 hover:bg-slate-800 disabled:opacity-40"
+            disabled={rules.length === 0}
+            onClick={exportFile}
+          >
+            Export JSON
+          </button>
+        </div>
+      </div>
+
+      {rules.length === 0 && !draft && (
+        <p className="text-xs text-slate-400">
+          No rules yet. Rules re-categorize matching transactions in this browser; the highest priority match wins.
+        </p>
+      )}
+
+      {rules.length > 0 && (
+        <div className="space-y-2">
+          {[...rules]
+            .sort((a, b) => b.priority - a.priority)
+            .map((r) => (
+              <div
+                key={r.id}
+                className={`flex flex-wrap items-center gap-2 border border-slate-800 rounded p-2 text-xs ${
+                  r.enabled ? "" : "opacity-50"
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={r.enabled}
+                  title={r.enabled ? "Disable rule" : "Enable rule"}
+                  onChange={() => onChange(rules.map((x) => (x.id === r.id ? { ...x, enabled: !x.enabled } : x)))}
+                />
+                <span className="text-slate-400 w-8 text-right">{r.priority}</span>
+                <div className="flex-1 min-w-[12rem]">
+                  {r.name && <div className="text-slate-200">{r.name}</div>}
+                  <div className="text-slate-400">{describeMatch(r)}</div>
+                </div>
+                <span className="rounded border border-slate-700 px-2 py-0.5 capitalize text-slate-200">{r.set.category}</span>
+                {r.set.merchant && <span className="text-slate-300">as {r.set.merchant}</span>}
+                {r.set.tags?.map((t) => (
+                  <span key={t} className="rounded bg-slate-800 px-1.5 py-0.5 text-slate-300">
+                    #{t}
+                  </span>
+                ))}
+                <span className="text-slate-400">{hits.get(r.id) ?? 0} hits</span>
+                <button
+                  className="rounded border border-slate-700 px-2 py-0.5 hover:bg-slate-800"
+                  onClick={() => {
+                    setDraft(toDraft(r));
+                    setProblems([]);
+                  }}
+                >
+                  Edit
+                </button>
+                <button
+                  className="rounded border border-rose-800/60 px-2 py-0.5 text-rose-300 hover:bg-rose-950/40"
+                  onClick={() => onChange(rules.filter((x) => x.id !== r.id))}
+                >
+                  Delete
+                </button>
+              </div>
+            ))}
+        </div>
+      )}
+
+      {draft && (
+        <div className="rounded-lg border border-slate-700 bg-slate-900/60 p-3 space-y-3">
+          <div className="text-xs text-slate-400">Match (every filled field must hold)</div>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+            <input
+              className={`${inputClass} md:col-span-2`}
+              placeholder="Narration regex, e.g. swiggy|zomato"
+              value={draft.narration}
+              onChange={(e) => field("narration", e.target.value)}
+            />
+            <input
+              className={inputClass}
+              placeholder="Merchant contains"
+              value={draft.merchant}
+              onChange={(e) => field("merchant", e.target.value)}
+            />
+            <select
+              className={inputClass}
+              value={draft.direction}
+              onChange={(e) => field("direction", e.target.value as Draft["direction"])}
+            >
+              <option value="">any direction</option>
+              <option value="credit">credit</option>
+              <option value="debit">debit</option>
+            </select>
+            <input
+              className={inputClass}
+              placeholder="Min abs amount"
+              value={draft.minAmount}
+              onChange={(e) => field("minAmount", e.target.value)}
+            />
+            <input
+              className={inputClass}
+              placeholder="Max abs amount"
+              value={draft.maxAmount}
+              onChange={(e) => field("maxAmount", e.target.value)}
+            />
+            <input
+              className={inputClass}
+              type="date"
+              title="From date"
+              value={draft.dateFrom}
+              onChange={(e) => field("dateFrom", e.target.value)}
+            />
+            <input
+              className={inputClass}
+              type="date"
+              title="To date"
+              value={draft.dateTo}
+              onChange={(e) => field("dateTo", e.target.value)}
+            />
+          </div>
+          <div className="text-xs text-slate-400">Set</div>
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-2">
+            <input
+              className={inputClass}
+              placeholder="Category"
+              list="rule-categories"
+              value={draft.category}
+              onChange={(e) => field("category", e.target.value)}
+            />
+            <datalist id="rule-categories">
+              {categories.map((c) => (
+                <option key={c} value={c} />
+              ))}
+            </datalist>
+            <input
+              className={inputClass}
+              placeholder="Merchant name (optional)"
+              value={draft.setMerchant}
+              onChange={(e) => field("setMerchant", e.target.value)}
+            />
+            <input
+              className={inputClass}
+              placeholder="Tags, comma separated"
+              value={draft.tags}
+              onChange={(e) => field("tags", e.target.value)}
+            />
+            <input
+              className={inputClass}
+              placeholder="Rule name (optional)"
+              value={draft.name}
+              onChange={(e) => field("name", e.target.value)}
+            />
+            <input
+              className={inputClass}
+              placeholder="Priority"
+              title="Priority (higher wins)"
+              value={draft.priority}
+              onChange={(e) => field("priority", e.target.value)}
+            />
+          </div>
+          <div className="flex gap-2 text-xs">
+            <button className="rounded-lg bg-amber-200 text-slate-900 px-3 py-1.5 font-medium" onClick={saveDraft}>
+              {draft.id ? "Save rule" : "Add rule"}
+            </button>
+            <button
+              className="rounded-lg border border-slate-700 px-3 py-1.5"
+              onClick={() => {
+                setDraft(null);
+                setProblems([]);
+              }}
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {problems.length > 0 && (
+        <ul className="list-disc pl-5 space-y-1 rounded-lg border border-red-700/40 bg-red-900/20 p-3 text-xs text-red-200">
+          {problems.map((p, i) => (
+            <li key={i}>{p}</li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
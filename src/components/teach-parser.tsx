@@ -0,0 +1,189 @@
+"use client";
+
+import { useState } from "react";
+import type { TeachResponse, TeachRole, TeachSample } from "@/lib/types/analyze";
+
+type Props = {
+  sample: TeachSample;
+  onSaved: () => void;
+  onCancel: () => void;
+};
+
+const ROLES: Array<{ role: TeachRole; label: string; className: string }> = [
+  { role: "date", label: "Date", className: "border-sky-600 bg-sky-900/40 text-sky-200" },
+  { role: "description", label: "Description", className: "border-slate-500 bg-slate-700/60 text-slate-100" },
+  { role: "debit", label: "Debit", className: "border-rose-600 bg-rose-900/40 text-rose-200" },
+  { role: "credit", label: "Credit", className: "border-emerald-600 bg-emerald-900/40 text-emerald-200" },
+  { role: "amount", label: "Amount", className: "border-amber-600 bg-amber-900/40 text-amber-200" },
+  { role: "balance", label: "Balance", className: "border-violet-600 bg-violet-900/40 text-violet-200" },
+];
+
+function roleClass(role: TeachRole | null) {
+  return ROLES.find((r) => r.role === role)?.className ?? "border-slate-700 bg-slate-900 text-slate-300";
+}
+
+// Guided fallback for a statement no parser understood: pick the column header
+// line, pick one transaction line, mark what each of its tokens is. The server
+// turns that into a bank template so the next upload parses on its own.
+export default function TeachParser({ sample, onSaved, onCancel }: Props) {
+  const [headerIdx, setHeaderIdx] = useState<number | null>(null);
+  const [sampleIdx, setSampleIdx] = useState<number | null>(null);
+  const [roles, setRoles] = useState<Array<TeachRole | null>>([]);
+  const [activeRole, setActiveRole] = useState<TeachRole>("date");
+  const [token, setToken] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  const sampleLine = sampleIdx === null ? "" : sample.lines[sampleIdx];
+  const tokens = sampleLine ? sampleLine.split(/\s+/) : [];
+
+  function pickHeader(idx: number) {
+    setHeaderIdx(idx);
+    setSampleIdx(null);
+    setRoles([]);
+    setError("");
+  }
+
+  function pickSample(idx: number) {
+    setSampleIdx(idx);
+    setRoles(sample.lines[idx].split(/\s+/).map(() => null));
+    setError("");
+  }
+
+  function markToken(i: number) {
+    setRoles((prev) => prev.map((r, k) => (k === i ? (r === activeRole ? null : activeRole) : r)));
+  }
+
+  async function save() {
+    if (headerIdx === null || sampleIdx === null) return;
+    setBusy(true);
+    setError("");
+    try {
+      const res = await fetch("/api/templates", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "x-template-token": token },
+        body: JSON.stringify({
+          headerLine: sample.lines[headerIdx],
+          sampleLine,
+          roles,
+          lines: sample.lines,
+        }),
+      });
+      const data: TeachResponse = await res.json();
+      if (!data.ok) {
+        setError(data.message);
+        return;
+      }
+      onSaved();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Something went wrong.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <section className="rounded-xl border border-amber-700/40 bg-amber-950/10 p-4 space-y-4">
+      <div className="space-y-1">
+        <h2 className="text-sm font-medium text-amber-200">Teach the parser this layout</h2>
+        <p className="text-xs text-slate-400">
+          No transactions were recognised in {sample.fileName ?? "this statement"}. Mark its layout once and
+          statements from the same bank will parse automatically.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-xs text-slate-300">
+          1. Click the column header line{headerIdx !== null ? "" : " (Date, Narration, Debit, Credit, Balance...)"}.
+        </p>
+        <ol className="max-h-56 overflow-auto rounded border border-slate-800 font-mono text-[11px]">
+          {sample.lines.map((line, idx) => (
+            <li key={idx}>
+              <button
+                className={`w-full truncate px-2 py-1 text-left hover:bg-slate-800 ${
+                  idx === headerIdx ? "bg-amber-900/40 text-amber-100" : idx === sampleIdx ? "bg-sky-900/30" : ""
+                }`}
+                onClick={() => (headerIdx === null || idx <= headerIdx ? pickHeader(idx) : pickSample(idx))}
+                title={line}
+              >
+                {line}
+              </button>
+            </li>
+          ))}
+        </ol>
+        {headerIdx !== null && (
+          <p className="text-xs text-slate-300">
+            2. Click one transaction line below the header. Clicking a line above it picks a different header.
+          </p>
+        )}
+      </div>
+
+      {tokens.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs text-slate-300">3. Choose a column, then click the tokens that belong to it.</p>
+          <div className="flex flex-wrap gap-2">
+            {ROLES.map((r) => (
+              <button
+                key={r.role}
+                className={`rounded border px-2 py-1 text-xs ${r.className} ${
+                  activeRole === r.role ? "ring-2 ring-white/60" : "opacity-70"
+                }`}
+                onClick={() => setActiveRole(r.role)}
+              >
+                {r.label}
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-1 font-mono text-xs">
+            {tokens.map((token, i) => (
+              <button
+                key={i}
+                className={`rounded border px-1.5 py-0.5 ${roleClass(roles[i] ?? null)}`}
+                onClick={() => markToken(i)}
+              >
+                {token}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-slate-500">
+            Mark Debit or Credit for statements with separate columns (the other may be blank on this line), or
+            Amount for a single signed or Dr/Cr column.
+          </p>
+        </div>
+      )}
+
+      <label className="flex items-center gap-2 text-xs text-slate-300">
+        Access token
+        <input
+          className="rounded border border-slate-700 bg-slate-900 px-2 py-1 text-xs"
+          type="password"
+          autoComplete="off"
+          value={token}
+          onChange={(e) => setToken(e.target.value)}
+        />
+        <span className="text-slate-500">Saved layouts apply to every upload on this server.</span>
+      </label>
+
+      {error && (
+        <div className="rounded-lg border border-red-700/40 bg-red-900/20 p-3 text-sm text-red-200">{error}</div>
+      )}
+
+      <div className="flex gap-3">
+        <button
+          className="rounded-lg bg-amber-200 text-slate-900 px-4 py-2 text-sm font-medium disabled:opacity-50"
+          disabled={busy || !token || headerIdx === null || sampleIdx === null || !roles.some(Boolean)}
+          onClick={save}
+        >
+          {busy ? "Saving..." : "Save layout and re-analyze"}
+        </button>
+        <button
+          className="rounded-lg border border-slate-700 px-4 py-2 text-sm disabled:opacity-50"
+          disabled={busy}
+          onClick={onCancel}
+        >
+          Cancel
+        </button>
+      </div>
+    </section>
+  );
+}
@@ -3,39 +3,60 @@
 import { useEffect, useMemo, useRef, useState } from "react";
 import { useRouter } from "next/navigation";
 import Modal from "@/components/modal";
-import type { AnalyzeResponse } from "@/lib/types/analyze";
+import TeachParser from "@/components/teach-parser";
+import type { AnalyzeOk, AnalyzeResponse, TeachSample } from "@/lib/types/analyze";
 
 const ANALYSIS_STORAGE_KEY = "statement_analysis_result_v1";
 
+function isImageFile(f: File) {
+  return f.type.startsWith("image/") || /\.(png|jpe?g)$/i.test(f.name);
+}
+
 export default function UploadStatement() {
   const router = useRouter();
   const fileInputRef = useRef<HTMLInputElement | null>(null);
-  const [file, setFile] = useState<File | null>(null);
+  const [files, setFiles] = useState<File[]>([]);
   const [passwordModalOpen, setPasswordModalOpen] = useState(false);
   const [password, setPassword] = useState("");
   const [busy, setBusy] = useState(false);
   const [error, setError] = useState("");
   const [dragActive, setDragActive] = useState(false);
+  const [teach, setTeach] = useState<TeachSample | null>(null);
+  // The merged result of the other files while one of them is being taught.
+  const [skipped, setSkipped] = useState<AnalyzeOk | null>(null);
+  const [debug, setDebug] = useState(false);
+  // The password that opened the file, so a re-run after teaching needs no prompt.
+  const lastPasswordRef = useRef<string | undefined>(undefined);
 
-  const handleFileSelect = (f: File | null) => {
-    setFile(f);
+  const handleFileSelect = (list: File[]) => {
+    // Several photos of a passbook/statement are sent as pages in name order
+    // (page-1.jpg, page-2.jpg, ..., page-10.jpg). Any other selection of
+    // several files is a run of statements that the server merges.
+    const sorted = [...list].sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
     setPassword("");
-    setError("");
     setPasswordModalOpen(false);
+    setFiles(sorted);
+    setError("");
+    setTeach(null);
   };
 
   const fileLabel = useMemo(() => {
-    if (!file) return "No file selected";
-    return `${file.name} (${Math.ceil(file.size / 1024)} KB)`;
-  }, [file]);
+    if (files.length === 0) return "No file selected";
+    const kb = Math.ceil(files.reduce((sum, f) => sum + f.size, 0) / 1024);
+    if (files.length === 1) return `${files[0].name} (${kb} KB)`;
+    const names = files.map((f) => f.name).join(", ");
+    if (files.every(isImageFile)) return `${files.length} images as pages: ${names} (${kb} KB)`;
+    return `${files.length} statements to merge: ${names} (${kb} KB)`;
+  }, [files]);
 
   const resetAll = () => {
-    setFile(null);
+    setFiles([]);
     if (fileInputRef.current) fileInputRef.current.value = "";
     setPassword("");
     setBusy(false);
     setError("");
     setPasswordModalOpen(false);
+    setTeach(null);
   };
 
   useEffect(() => {
@@ -47,15 +68,17 @@ export default function UploadStatement() {
   }, []);
 
   async function runAnalyze(opts?: { password?: string }) {
-    if (!file) return;
+    if (files.length === 0) return;
 
     setBusy(true);
     setError("");
+    setTeach(null);
 
     try {
       const fd = new FormData();
-      fd.append("file", file);
+      for (const f of files) fd.append("file", f);
       if (opts?.password?.trim()) fd.append("password", opts.password.trim());
+      if (debug) fd.append("debug", "1");
 
       const res = await fetch("/api/analyze", { method: "POST", body: fd });
       const data: AnalyzeResponse = await res.json();
@@ -68,31 +91,16 @@ export default function UploadStatement() {
 
       setPasswordModalOpen(false);
       setPassword("");
+      lastPasswordRef.current = opts?.password;
 
-      const payload = JSON.stringify({
-        ...data,
-        uploadedFileName: file.name,
-        uploadedAtIso: new Date().toISOString(),
-      });
-
-      try {
-        sessionStorage.setItem(ANALYSIS_STORAGE_KEY, payload);
-      } catch {
-        // Fall back below.
-      }
-      try {
-        localStorage.setItem(ANALYSIS_STORAGE_KEY, payload);
-      } catch {
-        // Continue; navigation fallback still runs.
+      // A file nothing was recognised in: let the user mark its layout first.
+      // Of a merged upload the rest is kept, to open if they skip teaching.
+      if (data.teach) {
+        setTeach(data.teach);
+        setSkipped(data.txns.length > 0 ? data : null);
+        return;
       }
-
-      router.push("/analysis");
-      router.refresh();
-      setTimeout(() => {
-        if (window.location.pathname !== "/analysis") {
-          window.location.assign("/analysis");
-        }
-      }, 120);
+      openDashboard(data);
     } catch (e: unknown) {
       const msg = e instanceof Error ? e.message : "Something went wrong.";
       setError(msg);
@@ -101,6 +109,36 @@ export default function UploadStatement() {
     }
   }
 
+  function openDashboard(data: AnalyzeOk) {
+    const payload = JSON.stringify({
+      ...data,
+      uploadedFileName:
+        files.length === 1
+          ? files[0].name
+          : `${files[0].name} (+${files.length - 1} ${files.every(isImageFile) ? "pages" : "statements"})`,
+      uploadedAtIso: new Date().toISOString(),
+    });
+
+    try {
+      sessionStorage.setItem(ANALYSIS_STORAGE_KEY, payload);
+    } catch {
+      // Fall back below.
+    }
+    try {
+      localStorage.setItem(ANALYSIS_STORAGE_KEY, payload);
+    } catch {
+      // Continue; navigation fallback still runs.
+    }
+
+    router.push("/analysis");
+    router.refresh();
+    setTimeout(() => {
+      if (window.location.pathname !== "/analysis") {
+        window.location.assign("/analysis");
+      }
+    }, 120);
+  }
+
   return (
     <section className="rounded-xl border border-slate-800 bg-slate-900/40 p-5 space-y-4">
       <div className="space-y-2">
@@ -126,8 +164,7 @@ export default function UploadStatement() {
           onDrop={(e) => {
             e.preventDefault();
             setDragActive(false);
-            const dropped = e.dataTransfer.files?.[0] ?? null;
-            handleFileSelect(dropped);
+            handleFileSelect(Array.from(e.dataTransfer.files ?? []));
           }}
         >
           <svg
@@ -148,9 +185,9 @@ export default function UploadStatement() {
             />
           </svg>
           <span>
-            Drag and drop a file here, or click to browse
+            Drag and drop files here, or click to browse
             <span className="block text-xs text-slate-400">
-              PDF, PNG, JPG, JPEG, CSV
+              PDF, PNG, JPG, JPEG, CSV, TSV, XLSX, XLS, OFX, QFX, QIF, CAMT.053, MT940 (select several statements to merge, or several images for multi-page scans)
             </span>
           </span>
         </label>
@@ -158,20 +195,24 @@ export default function UploadStatement() {
           id="statement-file-input"
           ref={fileInputRef}
           type="file"
-          accept=".pdf,.png,.jpg,.jpeg,.csv"
+          accept=".pdf,.png,.jpg,.jpeg,.csv,.tsv,.xlsx,.xls,.ofx,.qfx,.qif,.xml,.sta,.940,.mt940"
+          multiple
           className="sr-only"
           onChange={(e) => {
-            const f = e.target.files?.[0] ?? null;
-            handleFileSelect(f);
+            handleFileSelect(Array.from(e.target.files ?? []));
           }}
         />
         <p className="text-xs text-slate-400">{fileLabel}</p>
+        <label className="flex items-center gap-2 text-xs text-slate-400">
+          <input type="checkbox" checked={debug} onChange={(e) => setDebug(e.target.checked)} />
+          Include parser diagnostics
+        </label>
       </div>
 
       <div className="flex gap-3">
         <button
           className="rounded-lg bg-white text-slate-900 px-4 py-2 text-sm font-medium disabled:opacity-50"
-          disabled={!file || busy}
+          disabled={files.length === 0 || busy}
           onClick={() => runAnalyze()}
         >
           {busy ? "Processing..." : "Analyze"}
@@ -192,6 +233,17 @@ export default function UploadStatement() {
         </div>
       )}
 
+      {teach && (
+        <TeachParser
+          sample={teach}
+          onSaved={() => runAnalyze({ password: lastPasswordRef.current })}
+          onCancel={() => {
+            setTeach(null);
+            if (skipped) openDashboard(skipped);
+          }}
+        />
+      )}
+
       <Modal
         open={passwordModalOpen}
         title="Password required"
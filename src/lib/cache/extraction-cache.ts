@@ -0,0 +1,137 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes, scrypt } from "node:crypto";
+import { mkdir, readdir, readFile, rm, stat, utimes, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { promisify } from "node:util";
+
+// Content-addressed cache for PDF text extraction and OCR output, so
+// re-running an analysis on the same file repeats neither.
+//
+// ANALYZE_CACHE=off            disables it
+// ANALYZE_CACHE_DIR            where entries live (default: the OS temp dir)
+// ANALYZE_CACHE_TTL_HOURS      entries older than this are dropped (default 24)
+// ANALYZE_CACHE_MAX_MB         least recently used entries go first past this (default 200)
+//
+// Every entry is encrypted (AES-256-GCM). The key comes from the cached bytes
+// themselves, so only someone holding the same file can read its entry; for
+// password-protected PDFs the password is mixed in as well and is never stored.
+// File names are a separate hash that does not reveal the key.
+
+export type CacheNamespace = "pdf-text" | `ocr-${string}`;
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+function cacheDir(): string {
+  return process.env.ANALYZE_CACHE_DIR ?? path.join(os.tmpdir(), "finai-analyze-cache");
+}
+
+function numberEnv(name: string, fallback: number): number {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+function ttlMs(): number {
+  return numberEnv("ANALYZE_CACHE_TTL_HOURS", 24) * 3_600_000;
+}
+
+export function cacheEnabled(): boolean {
+  return (process.env.ANALYZE_CACHE ?? "").trim().toLowerCase() !== "off";
+}
+
+// Content is either the bytes themselves or a digest of them (contentDigest)
+// when the bytes are handed on elsewhere, e.g. to pdf.js.
+type CacheContent = Uint8Array | string;
+
+export function contentDigest(bytes: Uint8Array): string {
+  return createHash("sha256").update(bytes).digest("hex");
+}
+
+function digest(label: string, namespace: string, content: CacheContent): Buffer {
+  return createHash("sha256").update(`finai-cache:${label}:${namespace}:`).update(content).digest();
+}
+
+function entryPath(namespace: CacheNamespace, content: CacheContent): string {
+  return path.join(cacheDir(), `${digest("id", namespace, content).toString("hex")}.bin`);
+}
+
+async function entryKey(namespace: CacheNamespace, content: CacheContent, secret?: string): Promise<Buffer> {
+  const key = digest("key", namespace, content);
+  return secret ? scryptAsync(secret, key, 32) : key;
+}
+
+// The cached value, or null on a miss, an expired entry or one that does not
+// decrypt with this key (e.g. a different password).
+export async function readCache<T>(
+  namespace: CacheNamespace,
+  content: CacheContent,
+  secret?: string
+): Promise<T | null> {
+  if (!cacheEnabled()) return null;
+  const file = entryPath(namespace, content);
+  try {
+    const info = await stat(file);
+    if (Date.now() - info.mtimeMs > ttlMs()) {
+      await rm(file, { force: true });
+      return null;
+    }
+    const raw = await readFile(file);
+    const key = await entryKey(namespace, content, secret);
+    const decipher = createDecipheriv("aes-256-gcm", key, raw.subarray(0, IV_BYTES));
+    decipher.setAuthTag(raw.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+    const plain = Buffer.concat([decipher.update(raw.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+    // Reads count as use for the size limit; the TTL runs from the write.
+    await utimes(file, new Date(), info.mtime);
+    return JSON.parse(plain.toString("utf8")) as T;
+  } catch {
+    return null;
+  }
+}
+
+// Failures to write are ignored: the cache only ever saves work.
+export async function writeCache(
+  namespace: CacheNamespace,
+  content: CacheContent,
+  value: unknown,
+  secret?: string
+): Promise<void> {
+  if (!cacheEnabled()) return;
+  try {
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv("aes-256-gcm", await entryKey(namespace, content, secret), iv);
+    const body = Buffer.concat([cipher.update(JSON.stringify(value), "utf8"), cipher.final()]);
+    await mkdir(cacheDir(), { recursive: true });
+    await writeFile(entryPath(namespace, content), Buffer.concat([iv, cipher.getAuthTag(), body]), { mode: 0o600 });
+    await pruneCache();
+  } catch {
+    // best effort
+  }
+}
+
+// Drops expired entries, then the least recently read ones until the
+// directory fits the size limit.
+async function pruneCache(): Promise<void> {
+  const dir = cacheDir();
+  const maxBytes = numberEnv("ANALYZE_CACHE_MAX_MB", 200) * 1024 * 1024;
+  const expired = Date.now() - ttlMs();
+
+  const entries: Array<{ file: string; size: number; usedMs: number }> = [];
+  for (const name of await readdir(dir)) {
+    if (!name.endsWith(".bin")) continue;
+    const file = path.join(dir, name);
+    const info = await stat(file).catch(() => null);
+    if (!info) continue;
+    if (info.mtimeMs < expired) await rm(file, { force: true });
+    else entries.push({ file, size: info.size, usedMs: info.atimeMs });
+  }
+
+  let total = entries.reduce((sum, e) => sum + e.size, 0);
+  entries.sort((a, b) => a.usedMs - b.usedMs);
+  for (const e of entries) {
+    if (total <= maxBytes) break;
+    await rm(e.file, { force: true });
+    total -= e.size;
+  }
+}
@@ -0,0 +1,181 @@
+import type { Txn } from "@/lib/types/analyze";
+import { normalizeNarration } from "./merchants";
+import { SEED_EXAMPLES } from "./seed";
+import { normalizeCategory } from "./taxonomy";
+
+// Multinomial naive Bayes over narration words, trained in the browser on the
+// bundled seed narrations and the user's own category corrections. A model is
+// nothing but counts, so it serializes as plain JSON, and two models (a
+// teammate's export and your own) combine by adding their counts.
+
+export type ClassCounts = {
+  docs: number; // training narrations, weighted
+  words: number; // sum of counts
+  counts: Record<string, number>;
+};
+
+export type ClassifierModel = {
+  version: 1;
+  classes: Record<string, ClassCounts>;
+};
+
+export type Prediction = { category: string; probability: number };
+
+// A category the user set by hand, with the narration the model was trained on
+// for it so the example can be taken back exactly.
+export type Correction = { category: string; text: string };
+
+export class ClassifierError extends Error {
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Classifier model is invalid: ${problems.join("; ")}`);
+    this.name = "ClassifierError";
+    this.problems = problems;
+  }
+}
+
+// One correction counts as much as this many seed narrations.
+export const CORRECTION_WEIGHT = 3;
+// Below this the prediction is not used; with some forty categories chance is
+// under 0.03, so 0.4 already means the narration said something.
+export const MIN_PROBABILITY = 0.4;
+// Coarse categories the keyword fallback hands out; only these are open to the
+// model. Anything more specific came from a hand-written rule and stays.
+const MODEL_FILLS = new Set(["uncategorized", "transfer"]);
+
+// Additive smoothing for unseen words. Well below 1 because each class has only
+// a handful of short narrations; with 1 a single telling word barely moves the
+// posterior off uniform.
+const SMOOTHING = 0.05;
+
+// Payment-rail words, handles and filler that every class shares.
+const STOP_WORDS = new Set([
+  "UPI", "NEFT", "IMPS", "RTGS", "NACH", "ACH", "ECS", "MMT", "POS", "TO", "BY", "FROM", "FOR", "THE", "AND", "VIA",
+  "TRANSFER", "PAYMENT", "PAID", "APP", "REF", "TXN", "DR", "CR", "BANK", "LTD", "PVT", "LIMITED", "INDIA", "NA",
+  "YBL", "IBL", "AXL", "OKICICI", "OKAXIS", "OKSBI", "OKHDFCBANK", "PTYES", "PTAXIS", "PTHDFC", "PTSBI", "APL",
+  "YAPL", "RAPL", "NETBANK",
+]);
+
+export function tokenize(text: string): string[] {
+  return normalizeNarration(text)
+    .split(" ")
+    .filter((w) => w.length >= 3 && !STOP_WORDS.has(w) && !/\d/.test(w));
+}
+
+export function emptyModel(): ClassifierModel {
+  return { version: 1, classes: {} };
+}
+
+// Adds one narration under a category. A negative weight takes back an earlier
+// example, e.g. when a correction is itself corrected. Returns a new model.
+export function learn(model: ClassifierModel, text: string, category: string, weight = 1): ClassifierModel {
+  const words = tokenize(text);
+  if (words.length === 0) return model;
+  const prev = model.classes[category] ?? { docs: 0, words: 0, counts: {} };
+  const counts = { ...prev.counts };
+  let total = prev.words;
+  for (const w of words) {
+    const next = Math.max(0, (counts[w] ?? 0) + weight);
+    total += next - (counts[w] ?? 0);
+    if (next > 0) counts[w] = next;
+    else delete counts[w];
+  }
+  const docs = Math.max(0, prev.docs + weight);
+  const classes = { ...model.classes };
+  if (docs > 0) classes[category] = { docs, words: total, counts };
+  else delete classes[category];
+  return { version: 1, classes };
+}
+
+export function mergeModels(a: ClassifierModel, b: ClassifierModel): ClassifierModel {
+  const classes: Record<string, ClassCounts> = { ...a.classes };
+  for (const [category, c] of Object.entries(b.classes)) {
+    const prev = classes[category];
+    if (!prev) {
+      classes[category] = c;
+      continue;
+    }
+    const counts = { ...prev.counts };
+    for (const [w, n] of Object.entries(c.counts)) counts[w] = (counts[w] ?? 0) + n;
+    classes[category] = { docs: prev.docs + c.docs, words: prev.words + c.words, counts };
+  }
+  return { version: 1, classes };
+}
+
+let seed: ClassifierModel | null = null;
+
+export function seedModel(): ClassifierModel {
+  seed ??= SEED_EXAMPLES.reduce((m, [text, category]) => learn(m, text, category), emptyModel());
+  return seed;
+}
+
+// The most likely category with its posterior probability, or undefined when
+// no word of the narration was ever seen in training.
+export function predict(model: ClassifierModel, text: string): Prediction | undefined {
+  const entries = Object.entries(model.classes);
+  if (entries.length === 0) return undefined;
+  const vocabulary = new Set(entries.flatMap(([, c]) => Object.keys(c.counts)));
+  const words = tokenize(text).filter((w) => vocabulary.has(w));
+  if (words.length === 0) return undefined;
+
+  const totalDocs = entries.reduce((s, [, c]) => s + c.docs, 0);
+  const scores = entries.map(([category, c]) => {
+    let score = Math.log((c.docs + 1) / (totalDocs + entries.length));
+    for (const w of words) {
+      score += Math.log(((c.counts[w] ?? 0) + SMOOTHING) / (c.words + SMOOTHING * vocabulary.size));
+    }
+    return { category, score };
+  });
+  const best = scores.reduce((a, b) => (b.score > a.score ? b : a));
+  const norm = scores.reduce((s, x) => s + Math.exp(x.score - best.score), 0);
+  return { category: best.category, probability: 1 / norm };
+}
+
+// Fills in transactions the keyword fallback could only label coarsely. Rules
+// have already run, so a transaction a rule matched is left alone.
+export function classifyTxns(txns: Txn[], model: ClassifierModel): Txn[] {
+  return txns.map((t) => {
+    if (t.ruleId || !MODEL_FILLS.has(t.category)) return t;
+    const p = predict(model, t.description);
+    if (!p || p.probability < MIN_PROBABILITY || p.category === t.category) return t;
+    return { ...t, category: p.category, confidence: p.probability, categorySource: "model" };
+  });
+}
+
+// Identifies a transaction across uploads. Row ids are positional and repeat
+// from one statement to the next, so a correction is keyed by the bank's own ID
+// where the format has one and otherwise by what the row says.
+export function correctionKey(t: Txn): string {
+  if (t.externalId) return `ref:${t.externalId}`;
+  return `${t.date}|${t.amount}|${normalizeNarration(t.description)}`;
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+const isCount = (v: unknown) => typeof v === "number" && Number.isFinite(v) && v >= 0;
+
+// Checks an imported model and lists every problem at once.
+export function validateModel(raw: unknown): ClassifierModel {
+  if (!isRecord(raw) || raw.version !== 1 || !isRecord(raw.classes)) {
+    throw new ClassifierError(['expected { "version": 1, "classes": { ... } }']);
+  }
+  const problems: string[] = [];
+  const classes: Record<string, ClassCounts> = {};
+  for (const [name, c] of Object.entries(raw.classes)) {
+    const category = normalizeCategory(name);
+    const at = `classes["${name}"]`;
+    if (!category) problems.push(`${at} has no category name`);
+    if (!isRecord(c) || !isCount(c.docs) || !isCount(c.words) || !isRecord(c.counts)) {
+      problems.push(`${at} must have numeric docs and words and a counts object`);
+      continue;
+    }
+    const bad = Object.entries(c.counts).find(([, n]) => !isCount(n));
+    if (bad) problems.push(`${at}.counts["${bad[0]}"] must be a number of at least 0`);
+    if (category) classes[category] = c as ClassCounts;
+  }
+  if (problems.length > 0) throw new ClassifierError(problems);
+  return { version: 1, classes };
+}
@@ -0,0 +1,259 @@
+import { categoryPath } from "./taxonomy";
+
+// Offline dictionary of common Indian merchants and billers. Narrations are
+// matched after normalizing (upper case, punctuation to spaces), so UPI handles
+// like "swiggy@icici" and card lines like "SWIGGY*BANGALORE" both hit. Aliases
+// cover legal entity names that show up instead of the brand
+// (Bundl Technologies is Swiggy, ANI Technologies is Ola).
+
+export type MerchantEntry = {
+  name: string;
+  category: string;
+  aliases: string[]; // besides the name itself
+};
+
+function group(parent: string, child: string | undefined, merchants: Array<[string, ...string[]]>): MerchantEntry[] {
+  return merchants.map(([name, ...aliases]) => ({ name, category: categoryPath(parent, child), aliases }));
+}
+
+export const MERCHANTS: MerchantEntry[] = [
+  ...group("food", "delivery", [
+    ["Swiggy", "BUNDL TECHNOLOGIES"],
+    ["Zomato", "ZOMATO ONLINE", "ZOMATO LTD"],
+    ["Domino's", "DOMINOS", "JUBILANT FOODWORKS"],
+    ["EatSure", "REBEL FOODS"],
+  ]),
+  ...group("food", "groceries", [
+    ["BigBasket", "BIG BASKET", "SUPERMARKET GROCERY SUPPLIES", "INNOVATIVE RETAIL CONCEPTS"],
+    ["Swiggy Instamart", "INSTAMART"],
+    ["Blinkit", "GROFERS", "BLINK COMMERCE"],
+    ["Zepto", "KIRANAKART"],
+    ["DMart", "AVENUE SUPERMARTS", "D MART"],
+    ["JioMart", "JIO MART"],
+    ["Reliance Fresh", "RELIANCE SMART", "RELIANCE RETAIL"],
+    ["More Retail", "MORE SUPERMARKET"],
+    ["Nature's Basket", "NATURES BASKET"],
+    ["Spencer's", "SPENCERS"],
+    ["Milkbasket"],
+    ["Country Delight"],
+  ]),
+  ...group("food", "dining", [
+    ["Starbucks", "TATA STARBUCKS"],
+    ["McDonald's", "MCDONALDS", "HARDCASTLE RESTAURANTS", "CONNAUGHT PLAZA RESTAURANTS"],
+    ["KFC", "DEVYANI INTERNATIONAL"],
+    ["Burger King", "RESTAURANT BRANDS ASIA"],
+    ["Haldiram's", "HALDIRAMS"],
+    ["Cafe Coffee Day", "CAFE COFFEE DAY", "COFFEE DAY"],
+    ["Chaayos"],
+  ]),
+  ...group("travel", "rail", [["IRCTC", "INDIAN RAILWAY"]]),
+  ...group("travel", "cab", [
+    ["Uber", "UBER INDIA", "UBER RIDES"],
+    ["Ola", "OLA CABS", "OLACABS", "ANI TECHNOLOGIES"],
+    ["Rapido", "ROPPEN TRANSPORTATION"],
+    ["BluSmart"],
+    ["Namma Yatri"],
+  ]),
+  ...group("travel", "air", [
+    ["IndiGo", "INDIGO", "INTERGLOBE AVIATION"],
+    ["Air India", "AIRINDIA"],
+    ["Akasa Air", "AKASA", "SNV AVIATION"],
+    ["SpiceJet", "SPICE JET"],
+    ["Vistara", "TATA SIA AIRLINES"],
+  ]),
+  ...group("travel", "bus", [["redBus", "REDBUS"], ["AbhiBus"]]),
+  ...group("travel", "hotel", [
+    ["MakeMyTrip", "MAKEMYTRIP", "MMT"],
+    ["Goibibo", "IBIBO"],
+    ["Cleartrip"],
+    ["EaseMyTrip", "EASE MY TRIP"],
+    ["Yatra", "YATRA ONLINE"],
+    ["OYO", "OYO ROOMS", "ORAVEL STAYS"],
+    ["Airbnb"],
+  ]),
+  ...group("travel", "fuel", [
+    ["Indian Oil", "IOCL", "INDIANOIL", "INDIAN OIL CORPORATION"],
+    ["Bharat Petroleum", "BPCL", "BHARAT PETROLEUM"],
+    ["Hindustan Petroleum", "HPCL", "HP PETROL"],
+    ["Shell", "SHELL INDIA"],
+    ["Nayara Energy", "NAYARA"],
+    ["FASTag", "FASTAG", "NETC"],
+  ]),
+  ...group("utilities", "mobile", [
+    ["Jio", "RELIANCE JIO", "JIO PREPAID", "JIO POSTPAID"],
+    ["Airtel", "BHARTI AIRTEL", "AIRTEL PREPAID", "AIRTEL POSTPAID"],
+    ["Vodafone Idea", "VODAFONE", "VI POSTPAID", "VI PREPAID", "IDEA CELLULAR"],
+    ["BSNL", "BHARAT SANCHAR NIGAM"],
+  ]),
+  ...group("utilities", "broadband", [
+    ["ACT Fibernet", "ATRIA CONVERGENCE", "ACT FIBERNET"],
+    ["Airtel Xstream Fiber", "AIRTEL BROADBAND"],
+    ["JioFiber", "JIO FIBER"],
+    ["Hathway"],
+    ["Excitel"],
+  ]),
+  ...group("utilities", "dth", [
+    ["Tata Play", "TATA SKY", "TATAPLAY"],
+    ["Dish TV", "DISHTV"],
+    ["Sun Direct"],
+    ["Airtel Digital TV"],
+  ]),
+  ...group("utilities", "electricity", [
+    ["BESCOM", "BANGALORE ELECTRICITY"],
+    ["MSEDCL", "MAHAVITARAN", "MAHARASHTRA STATE ELECTRICITY"],
+    ["Adani Electricity", "ADANI ELECTRICITY MUMBAI", "AEML"],
+    ["Tata Power", "TATA POWER", "TATA POWER DDL"],
+    ["BSES", "BSES RAJDHANI", "BSES YAMUNA"],
+    ["TANGEDCO", "TAMIL NADU GENERATION", "TNEB"],
+    ["TSSPDCL", "TSNPDCL"],
+    ["APSPDCL", "APEPDCL"],
+    ["KSEB", "KERALA STATE ELECTRICITY"],
+    ["CESC"],
+    ["UPPCL"],
+    ["Torrent Power"],
+    ["PSPCL"],
+    ["WBSEDCL"],
+    ["MGVCL", "DGVCL", "PGVCL", "UGVCL"],
+  ]),
+  ...group("utilities", "gas", [
+    ["Indane", "INDANE GAS"],
+    ["Bharat Gas", "BHARATGAS"],
+    ["HP Gas", "HPGAS"],
+    ["Mahanagar Gas", "MGL"],
+    ["Indraprastha Gas", "IGL"],
+    ["Adani Total Gas", "ADANI GAS"],
+    ["Gujarat Gas"],
+  ]),
+  ...group("utilities", "water", [["BWSSB"], ["Delhi Jal Board", "DJB"], ["MCGM Water"]]),
+  ...group("shopping", "online", [
+    ["Amazon", "AMAZON PAY", "AMAZON SELLER", "AMZN", "AMAZON IN"],
+    ["Flipkart", "FLIPKART INTERNET"],
+    ["Myntra", "MYNTRA DESIGNS"],
+    ["Ajio"],
+    ["Meesho", "FASHNEAR TECHNOLOGIES"],
+    ["Nykaa", "FSN E COMMERCE"],
+    ["Tata CLiQ", "TATACLIQ", "TATA CLIQ"],
+    ["Snapdeal"],
+    ["FirstCry", "BRAINBEES"],
+  ]),
+  ...group("shopping", "apparel", [
+    ["Lifestyle", "LIFESTYLE INTERNATIONAL"],
+    ["Pantaloons"],
+    ["Westside", "TRENT LTD"],
+    ["Max Fashion", "MAX RETAIL"],
+    ["Shoppers Stop"],
+    ["Decathlon"],
+    ["Bata"],
+    ["H&M", "H M HENNES", "HENNES MAURITZ"],
+    ["Zara", "INDITEX TRENT"],
+  ]),
+  ...group("shopping", "electronics", [
+    ["Croma", "INFINITI RETAIL"],
+    ["Reliance Digital"],
+    ["Vijay Sales"],
+    ["Apple", "APPLE INDIA", "APPLE COM BILL"],
+  ]),
+  ...group("shopping", "home", [["IKEA"], ["Pepperfry"], ["Urban Company", "URBANCLAP", "URBAN COMPANY"]]),
+  ...group("entertainment", "streaming", [
+    ["Netflix", "NETFLIX COM"],
+    ["Prime Video", "AMAZON PRIME", "PRIME VIDEO"],
+    ["Disney+ Hotstar", "HOTSTAR", "NOVI DIGITAL"],
+    ["Spotify"],
+    ["YouTube Premium", "YOUTUBE", "GOOGLE YOUTUBE"],
+    ["JioCinema", "JIO CINEMA", "VIACOM18"],
+    ["SonyLIV", "SONY LIV"],
+    ["ZEE5"],
+    ["Gaana"],
+  ]),
+  ...group("entertainment", "movies", [
+    ["BookMyShow", "BOOKMYSHOW", "BIGTREE ENTERTAINMENT"],
+    ["PVR INOX", "PVR", "INOX"],
+    ["Cinepolis"],
+  ]),
+  ...group("health", "pharmacy", [
+    ["PharmEasy", "PHARMEASY"],
+    ["1mg", "TATA 1MG", "ONEMG"],
+    ["Netmeds"],
+    ["Apollo Pharmacy", "APOLLO PHARMACY"],
+    ["MedPlus", "MEDPLUS"],
+    ["Wellness Forever"],
+  ]),
+  ...group("health", "hospital", [
+    ["Apollo Hospitals", "APOLLO HOSPITALS"],
+    ["Fortis", "FORTIS HEALTHCARE"],
+    ["Manipal Hospitals"],
+    ["Max Healthcare"],
+    ["Practo"],
+  ]),
+  ...group("health", "fitness", [["cult.fit", "CULTFIT", "CURE FIT", "CUREFIT"], ["HealthifyMe"]]),
+  ...group("insurance", "life", [
+    ["LIC", "LIFE INSURANCE CORPORATION", "LICI"],
+    ["HDFC Life"],
+    ["ICICI Prudential Life", "ICICI PRU LIFE"],
+    ["SBI Life"],
+    ["Max Life"],
+  ]),
+  ...group("insurance", "health", [["Star Health"], ["Niva Bupa", "MAX BUPA"], ["Care Health"]]),
+  ...group("insurance", "vehicle", [["ACKO", "ACKO GENERAL"], ["Digit Insurance", "GO DIGIT"]]),
+  ...group("investments", "mutual funds", [
+    ["Zerodha Coin", "COIN ZERODHA"],
+    ["Groww", "NEXTBILLION TECHNOLOGY"],
+    ["Kuvera"],
+    ["Paytm Money"],
+    ["BSE StAR MF", "BSE STAR MF", "BSESTARMF"],
+    ["NSE MF", "NSE CLEARING", "NSEMF"],
+    ["CAMS", "CAMSPAY"],
+    ["KFintech", "KFIN", "KARVY"],
+    ["SBI Mutual Fund", "SBIMF"],
+    ["HDFC Mutual Fund", "HDFCMF"],
+    ["ICICI Prudential MF", "ICICIPRUMF"],
+  ]),
+  ...group("investments", "stocks", [
+    ["Zerodha", "ZERODHA BROKING"],
+    ["Upstox", "RKSV SECURITIES"],
+    ["Angel One", "ANGEL BROKING"],
+    ["ICICI Direct", "ICICI SECURITIES"],
+    ["HDFC Securities"],
+  ]),
+  ...group("investments", "deposits", [["PPF"], ["NPS", "NATIONAL PENSION SYSTEM", "PROTEAN CRA"]]),
+  ...group("taxes", "income tax", [["Income Tax", "INCOME TAX DEPARTMENT", "ITD TDS", "CBDT", "OLTAS"]]),
+  ...group("taxes", "gst", [["GST Payment", "GSTN", "GST PORTAL"]]),
+  ...group("education", undefined, [["BYJU'S", "BYJUS", "THINK AND LEARN"], ["Unacademy", "SORTING HAT"], ["Coursera"], ["Udemy"]]),
+  // Wallet and payments-bank top-ups move the user's own money.
+  ...group("transfer", undefined, [["Airtel Payments Bank"], ["Paytm Payments Bank"], ["India Post Payments Bank", "IPPB"]]),
+  ...group("rent", undefined, [["NoBroker", "NOBROKER"], ["RentPay"], ["Housing.com", "HOUSING COM"]]),
+];
+
+type Alias = { entry: MerchantEntry; phrase: string; compact: string };
+
+export function normalizeNarration(text: string): string {
+  return text
+    .toUpperCase()
+    .replace(/['’]/g, "")
+    .replace(/[^A-Z0-9]+/g, " ")
+    .trim();
+}
+
+// Longest alias first, so "SWIGGY INSTAMART" wins over "SWIGGY".
+const ALIASES: Alias[] = MERCHANTS.flatMap((entry) =>
+  [entry.name, ...entry.aliases].map((alias) => {
+    const phrase = normalizeNarration(alias);
+    return { entry, phrase, compact: phrase.replaceAll(" ", "") };
+  })
+).sort((a, b) => b.compact.length - a.compact.length);
+
+// Short aliases ("OLA", "JIO", "PVR") only count as whole words; longer ones
+// may also start a run-together token such as "SWIGGYINSTAMART" or "UBERINDIA".
+const MIN_PREFIX_ALIAS = 5;
+
+export function lookupMerchant(description: string): MerchantEntry | undefined {
+  const norm = normalizeNarration(description);
+  if (!norm) return undefined;
+  const padded = ` ${norm} `;
+  const tokens = norm.split(" ");
+  for (const a of ALIASES) {
+    if (padded.includes(` ${a.phrase} `)) return a.entry;
+    if (a.compact.length >= MIN_PREFIX_ALIAS && tokens.some((t) => t.startsWith(a.compact))) return a.entry;
+  }
+  return undefined;
+}
@@ -0,0 +1,203 @@
+import { merchantKey } from "@/lib/ledger/insights";
+import { normalizeCategory } from "./taxonomy";
+import type { Txn } from "@/lib/types/analyze";
+
+// User-defined categorization rules. Every condition a rule lists must hold;
+// of the rules that match a transaction the highest priority one sets its
+// category, and its merchant and tags when given. Rules are applied to the
+// transactions as parsed, so editing or removing a rule re-derives everything.
+
+export type RuleMatch = {
+  narration?: string; // regular expression, case-insensitive, on the description
+  merchant?: string; // case-insensitive substring of the merchant
+  minAmount?: number; // absolute amount, inclusive
+  maxAmount?: number;
+  direction?: "credit" | "debit";
+  dateFrom?: string; // YYYY-MM-DD, inclusive
+  dateTo?: string;
+};
+
+export type RuleAction = {
+  category: string;
+  merchant?: string;
+  tags?: string[];
+};
+
+export type CategoryRule = {
+  id: string;
+  name?: string;
+  priority: number; // higher first; ties keep list order
+  enabled: boolean;
+  match: RuleMatch;
+  set: RuleAction;
+};
+
+// What export writes and import reads (a bare rule array is accepted too).
+export type RuleSet = {
+  version: 1;
+  rules: CategoryRule[];
+};
+
+export class RuleError extends Error {
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Rules are invalid: ${problems.join("; ")}`);
+    this.name = "RuleError";
+    this.problems = problems;
+  }
+}
+
+const DIRECTIONS = ["credit", "debit"];
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function validateRule(raw: unknown, at: string, problems: string[]): CategoryRule | null {
+  if (!isRecord(raw)) {
+    problems.push(`${at} must be an object`);
+    return null;
+  }
+  const start = problems.length;
+  const match = isRecord(raw.match) ? raw.match : {};
+  const set = isRecord(raw.set) ? raw.set : {};
+
+  if (typeof raw.id !== "string" || !raw.id.trim()) problems.push(`${at}.id must be a non-empty string`);
+  if (raw.name !== undefined && typeof raw.name !== "string") problems.push(`${at}.name must be a string`);
+  if (typeof raw.priority !== "number" || !Number.isFinite(raw.priority)) {
+    problems.push(`${at}.priority must be a number`);
+  }
+  if (raw.enabled !== undefined && typeof raw.enabled !== "boolean") problems.push(`${at}.enabled must be true or false`);
+  if (!isRecord(raw.match)) problems.push(`${at}.match must be an object`);
+  if (!isRecord(raw.set)) problems.push(`${at}.set must be an object`);
+
+  if (match.narration !== undefined) {
+    if (typeof match.narration !== "string" || !match.narration) {
+      problems.push(`${at}.match.narration must be a non-empty string`);
+    } else {
+      try {
+        new RegExp(match.narration, "i");
+      } catch (err: unknown) {
+        problems.push(
+          `${at}.match.narration is not a valid regular expression (${err instanceof Error ? err.message : String(err)})`
+        );
+      }
+    }
+  }
+  if (match.merchant !== undefined && (typeof match.merchant !== "string" || !match.merchant.trim())) {
+    problems.push(`${at}.match.merchant must be a non-empty string`);
+  }
+  for (const key of ["minAmount", "maxAmount"] as const) {
+    const v = match[key];
+    if (v !== undefined && (typeof v !== "number" || !Number.isFinite(v) || v < 0)) {
+      problems.push(`${at}.match.${key} must be a number of at least 0`);
+    }
+  }
+  if (typeof match.minAmount === "number" && typeof match.maxAmount === "number" && match.minAmount > match.maxAmount) {
+    problems.push(`${at}.match.minAmount is above maxAmount`);
+  }
+  if (match.direction !== undefined && !DIRECTIONS.includes(match.direction as string)) {
+    problems.push(`${at}.match.direction must be "credit" or "debit"`);
+  }
+  for (const key of ["dateFrom", "dateTo"] as const) {
+    const v = match[key];
+    if (v !== undefined && (typeof v !== "string" || !ISO_DATE.test(v))) {
+      problems.push(`${at}.match.${key} must be a YYYY-MM-DD date`);
+    }
+  }
+  if (isRecord(raw.match) && Object.values(match).every((v) => v === undefined)) {
+    problems.push(`${at}.match needs at least one condition`);
+  }
+
+  if (typeof set.category !== "string" || !normalizeCategory(set.category)) {
+    problems.push(`${at}.set.category must be a non-empty string`);
+  }
+  if (set.merchant !== undefined && typeof set.merchant !== "string") problems.push(`${at}.set.merchant must be a string`);
+  if (set.tags !== undefined && (!Array.isArray(set.tags) || set.tags.some((t) => typeof t !== "string"))) {
+    problems.push(`${at}.set.tags must be a list of strings`);
+  }
+
+  if (problems.length > start) return null;
+  return {
+    id: raw.id as string,
+    name: raw.name as string | undefined,
+    priority: raw.priority as number,
+    enabled: raw.enabled !== false,
+    match: match as RuleMatch,
+    set: {
+      category: normalizeCategory(set.category as string),
+      merchant: (set.merchant as string | undefined)?.trim() || undefined,
+      tags: (set.tags as string[] | undefined)?.map((t) => t.trim()).filter(Boolean),
+    },
+  };
+}
+
+// Checks an imported rule set (or bare array) and lists every problem at once.
+export function validateRules(raw: unknown): CategoryRule[] {
+  const list = Array.isArray(raw) ? raw : isRecord(raw) ? raw.rules : undefined;
+  if (!Array.isArray(list)) throw new RuleError(['expected a list of rules or { "rules": [...] }']);
+
+  const problems: string[] = [];
+  const rules = list.map((r, i) => validateRule(r, `rules[${i}]`, problems));
+  const ids = new Set<string>();
+  rules.forEach((r, i) => {
+    if (!r) return;
+    if (ids.has(r.id)) problems.push(`rules[${i}].id "${r.id}" is used twice`);
+    ids.add(r.id);
+  });
+  if (problems.length > 0) throw new RuleError(problems);
+  return rules as CategoryRule[];
+}
+
+export function exportRules(rules: CategoryRule[]): RuleSet {
+  return { version: 1, rules };
+}
+
+type CompiledRule = { rule: CategoryRule; narration?: RegExp; merchant?: string };
+
+function compile(rules: CategoryRule[]): CompiledRule[] {
+  return rules
+    .map((rule, index) => ({ rule, index }))
+    .filter(({ rule }) => rule.enabled)
+    .sort((a, b) => b.rule.priority - a.rule.priority || a.index - b.index)
+    .map(({ rule }) => ({
+      rule,
+      narration: rule.match.narration ? new RegExp(rule.match.narration, "i") : undefined,
+      merchant: rule.match.merchant?.trim().toUpperCase(),
+    }));
+}
+
+function matches(c: CompiledRule, t: Txn): boolean {
+  const m = c.rule.match;
+  const abs = Math.abs(t.amount);
+  const isCredit = (t.drCr ?? (t.amount >= 0 ? "CR" : "DR")) === "CR";
+  if (c.narration && !c.narration.test(t.description)) return false;
+  if (c.merchant && !merchantKey(t).includes(c.merchant)) return false;
+  if (m.minAmount !== undefined && abs < m.minAmount) return false;
+  if (m.maxAmount !== undefined && abs > m.maxAmount) return false;
+  if (m.direction && (m.direction === "credit") !== isCredit) return false;
+  if (m.dateFrom && t.date < m.dateFrom) return false;
+  if (m.dateTo && t.date > m.dateTo) return false;
+  return true;
+}
+
+// New transaction objects for the ones a rule matched; the rest are returned
+// as they were.
+export function applyRules(txns: Txn[], rules: CategoryRule[]): Txn[] {
+  const compiled = compile(rules);
+  if (compiled.length === 0) return txns;
+  return txns.map((t) => {
+    const rule = compiled.find((c) => matches(c, t))?.rule;
+    if (!rule) return t;
+    return {
+      ...t,
+      category: rule.set.category,
+      merchant: rule.set.merchant ?? t.merchant,
+      tags: rule.set.tags && rule.set.tags.length > 0 ? rule.set.tags : t.tags,
+      ruleId: rule.id,
+    };
+  });
+}
+
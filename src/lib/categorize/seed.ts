@@ -0,0 +1,108 @@
+import { MERCHANTS } from "./merchants";
+
+// Bundled training narrations for the classifier: every merchant of the
+// dictionary under its names, plus generic wording the dictionary cannot list
+// (local shops, billers by bill type, banking entries).
+
+const GENERIC: Array<[string, string]> = [
+  ["ATM CASH WITHDRAWAL", "cash"],
+  ["ATM WDL", "cash"],
+  ["CASH WITHDRAWAL SELF", "cash"],
+  ["CASH DEPOSIT", "cash"],
+  ["SALARY CREDIT", "income › salary"],
+  ["SAL FOR THE MONTH", "income › salary"],
+  ["PAYROLL", "income › salary"],
+  ["STIPEND", "income › salary"],
+  ["REFUND", "income › refund"],
+  ["CASHBACK", "income › refund"],
+  ["REVERSAL", "income › refund"],
+  ["INTEREST CREDIT", "interest"],
+  ["INT PD", "interest"],
+  ["SB INTEREST", "interest"],
+  ["FD INTEREST", "interest"],
+  ["LOAN EMI", "loan"],
+  ["EMI RECOVERY", "loan"],
+  ["HOME LOAN", "loan"],
+  ["PERSONAL LOAN", "loan"],
+  ["BAJAJ FINANCE", "loan"],
+  ["SMS CHARGES", "fees"],
+  ["DEBIT CARD ANNUAL FEE", "fees"],
+  ["MIN BAL CHARGES", "fees"],
+  ["GST ON CHARGES", "fees"],
+  ["SELF TRANSFER", "transfer"],
+  ["OWN ACCOUNT TRANSFER", "transfer"],
+  ["FUND TRANSFER", "transfer"],
+  ["CREDIT CARD PAYMENT", "card payment"],
+  ["CC BILL PAYMENT", "card payment"],
+  ["KIRANA STORE", "food › groceries"],
+  ["GENERAL STORE", "food › groceries"],
+  ["SUPERMARKET", "food › groceries"],
+  ["PROVISION STORE", "food › groceries"],
+  ["VEGETABLES FRUITS", "food › groceries"],
+  ["DAIRY MILK", "food › groceries"],
+  ["RESTAURANT", "food › dining"],
+  ["CAFE", "food › dining"],
+  ["BAKERY SWEETS", "food › dining"],
+  ["DHABA", "food › dining"],
+  ["HOTEL FOOD", "food › dining"],
+  ["PETROL PUMP", "travel › fuel"],
+  ["FILLING STATION", "travel › fuel"],
+  ["FUEL STATION", "travel › fuel"],
+  ["SERVICE STATION", "travel › fuel"],
+  ["TOLL PLAZA", "travel › fuel"],
+  ["METRO CARD RECHARGE", "travel › rail"],
+  ["METRO RAIL", "travel › rail"],
+  ["AUTO RICKSHAW", "travel › cab"],
+  ["TAXI", "travel › cab"],
+  ["AIRLINES", "travel › air"],
+  ["TRAVELS BUS", "travel › bus"],
+  ["ELECTRICITY BILL", "utilities › electricity"],
+  ["POWER BILL", "utilities › electricity"],
+  ["MOBILE RECHARGE", "utilities › mobile"],
+  ["POSTPAID BILL", "utilities › mobile"],
+  ["BROADBAND BILL", "utilities › broadband"],
+  ["INTERNET BILL", "utilities › broadband"],
+  ["GAS CYLINDER", "utilities › gas"],
+  ["PIPED GAS BILL", "utilities › gas"],
+  ["WATER BILL", "utilities › water"],
+  ["DTH RECHARGE", "utilities › dth"],
+  ["MEDICAL STORE", "health › pharmacy"],
+  ["CHEMIST", "health › pharmacy"],
+  ["PHARMACY", "health › pharmacy"],
+  ["HOSPITAL", "health › hospital"],
+  ["CLINIC", "health › hospital"],
+  ["DIAGNOSTICS LAB", "health › hospital"],
+  ["DENTAL CARE", "health › hospital"],
+  ["GYM MEMBERSHIP", "health › fitness"],
+  ["INSURANCE PREMIUM", "insurance"],
+  ["LIFE INSURANCE PREMIUM", "insurance › life"],
+  ["HEALTH INSURANCE", "insurance › health"],
+  ["MOTOR INSURANCE", "insurance › vehicle"],
+  ["MUTUAL FUND SIP", "investments › mutual funds"],
+  ["SIP INSTALLMENT", "investments › mutual funds"],
+  ["EQUITY SHARES", "investments › stocks"],
+  ["FIXED DEPOSIT", "investments › deposits"],
+  ["RECURRING DEPOSIT", "investments › deposits"],
+  ["ADVANCE TAX", "taxes › income tax"],
+  ["TDS PAYMENT", "taxes › income tax"],
+  ["SCHOOL FEES", "education"],
+  ["COLLEGE FEES", "education"],
+  ["TUITION", "education"],
+  ["HOUSE RENT", "rent"],
+  ["RENT PAYMENT", "rent"],
+  ["MAINTENANCE SOCIETY", "rent"],
+  ["ELECTRONICS STORE", "shopping › electronics"],
+  ["MOBILE STORE", "shopping › electronics"],
+  ["GARMENTS", "shopping › apparel"],
+  ["FOOTWEAR", "shopping › apparel"],
+  ["TAILORS", "shopping › apparel"],
+  ["FURNITURE", "shopping › home"],
+  ["HARDWARE STORE", "shopping › home"],
+  ["MOVIE TICKETS", "entertainment › movies"],
+  ["SUBSCRIPTION", "entertainment › streaming"],
+];
+
+export const SEED_EXAMPLES: Array<[text: string, category: string]> = [
+  ...MERCHANTS.flatMap((m) => [m.name, ...m.aliases].map((alias): [string, string] => [alias, m.category])),
+  ...GENERIC,
+];
@@ -0,0 +1,57 @@
+// Two-level categories. A category is either a top-level name ("fees") or
+// "parent › child" ("food › delivery"), always lower case; the dashboard
+// capitalizes them for display. Older flat categories are simply parents
+// without a child, so stored analyses and rules keep working.
+
+export const CATEGORY_SEPARATOR = " › ";
+
+// Parents and the children they allow. Parents with no children are used as-is.
+export const TAXONOMY: Record<string, string[]> = {
+  food: ["groceries", "delivery", "dining"],
+  travel: ["fuel", "cab", "rail", "air", "bus", "hotel"],
+  utilities: ["electricity", "mobile", "broadband", "gas", "water", "dth"],
+  shopping: ["online", "apparel", "electronics", "home"],
+  entertainment: ["streaming", "movies"],
+  health: ["pharmacy", "hospital", "fitness"],
+  insurance: ["life", "health", "vehicle"],
+  investments: ["mutual funds", "stocks", "deposits"],
+  taxes: ["income tax", "gst"],
+  education: [],
+  rent: [],
+  income: ["salary", "refund"],
+  interest: [],
+  transfer: [],
+  cash: [],
+  loan: [],
+  fees: [],
+  "card payment": [],
+  refund: [],
+  uncategorized: [],
+};
+
+export function categoryPath(parent: string, child?: string): string {
+  return child ? `${parent}${CATEGORY_SEPARATOR}${child}` : parent;
+}
+
+export function splitCategory(category: string): { parent: string; child?: string } {
+  const [parent, child] = category.split(CATEGORY_SEPARATOR);
+  return { parent, child };
+}
+
+// User input such as "Food > Delivery", "food/delivery" or QIF's
+// "Food:Groceries" in canonical form. Levels past the second are dropped.
+export function normalizeCategory(input: string): string {
+  const [parent, child] = input
+    .split(/\s*(?:›|>|\/|:)\s*/)
+    .map((p) => p.replace(/\s+/g, " ").trim().toLowerCase())
+    .filter(Boolean);
+  return parent ? categoryPath(parent, child) : "";
+}
+
+// Every category of the taxonomy, parents before their children.
+export function taxonomyCategories(): string[] {
+  return Object.entries(TAXONOMY).flatMap(([parent, children]) => [
+    parent,
+    ...children.map((child) => categoryPath(parent, child)),
+  ]);
+}
@@ -0,0 +1,143 @@
+import { inferCategory } from "@/lib/parsers/common";
+import type { ParserTxn } from "@/lib/parsers/types";
+import type { Counterparty, LedgerBalance } from "@/lib/types/analyze";
+import { decodeText } from "./csv";
+import { ImportError } from "./errors";
+import { child, children, childText, parseXml, type XmlElement } from "./xml";
+
+export type StatementImportResult = {
+  txns: ParserTxn[];
+  currency: string;
+  account?: string;
+  openingBalance?: LedgerBalance;
+  closingBalance?: LedgerBalance;
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}/;
+
+function at(el: XmlElement): string {
+  return `<${el.name}> on line ${el.line}`;
+}
+
+// <BookgDt>/<ValDt>/<Dt> hold either <Dt>2024-01-05</Dt> or <DtTm>2024-01-05T10:00:00</DtTm>.
+function camtDate(el: XmlElement | undefined): string | undefined {
+  const raw = childText(el, "Dt") ?? childText(el, "DtTm") ?? el?.text;
+  return raw && ISO_DATE.test(raw) ? raw.slice(0, 10) : undefined;
+}
+
+function signedAmount(parent: XmlElement): { amount: number; currency?: string } {
+  const amt = child(parent, "Amt");
+  const value = amt ? Number(amt.text) : NaN;
+  if (!amt || !Number.isFinite(value)) throw new ImportError("Missing or invalid <Amt>.", at(parent));
+  const indicator = childText(parent, "CdtDbtInd");
+  if (indicator !== "CRDT" && indicator !== "DBIT") {
+    throw new ImportError(`<CdtDbtInd> must be CRDT or DBIT, got "${indicator ?? ""}".`, at(parent));
+  }
+  return { amount: indicator === "DBIT" ? -value : value, currency: amt.attrs.Ccy };
+}
+
+function balance(stmt: XmlElement, codes: string[]): LedgerBalance | undefined {
+  for (const code of codes) {
+    const bal = children(stmt, "Bal").find(
+      (b) => (childText(b, "Tp", "CdOrPrtry", "Cd") ?? childText(b, "Tp", "CdOrPrtry", "Prtry")) === code
+    );
+    if (bal) {
+      const { amount, currency } = signedAmount(bal);
+      return { amount, asOf: camtDate(child(bal, "Dt")), currency };
+    }
+  }
+  return undefined;
+}
+
+// Party names moved from <Dbtr><Nm> (camt.053.001.02) to <Dbtr><Pty><Nm> (.08+).
+function party(parties: XmlElement | undefined, role: "Dbtr" | "Cdtr"): Counterparty | undefined {
+  const p = child(parties, role);
+  const acct = child(parties, `${role}Acct`, "Id");
+  const cp: Counterparty = {
+    name: childText(p, "Nm") ?? childText(p, "Pty", "Nm"),
+    account: childText(acct, "IBAN") ?? childText(acct, "Othr", "Id"),
+  };
+  return cp.name || cp.account ? cp : undefined;
+}
+
+function agentCode(agents: XmlElement | undefined, role: "DbtrAgt" | "CdtrAgt"): string | undefined {
+  const fin = child(agents, role, "FinInstnId");
+  return childText(fin, "BICFI") ?? childText(fin, "BIC") ?? childText(fin, "ClrSysMmbId", "MmbId");
+}
+
+function usable(ref: string | undefined): string | undefined {
+  return ref && ref !== "NOTPROVIDED" && ref !== "NONREF" ? ref : undefined;
+}
+
+function entryToTxn(ntry: XmlElement, currency: string): ParserTxn | null {
+  // Pending and informational entries are not on the booked statement.
+  const status = childText(ntry, "Sts", "Cd") ?? childText(ntry, "Sts");
+  if (status && status !== "BOOK") return null;
+
+  const { amount, currency: ccy } = signedAmount(ntry);
+  const date = camtDate(child(ntry, "BookgDt")) ?? camtDate(child(ntry, "ValDt"));
+  if (!date) throw new ImportError("Entry has no booking or value date.", at(ntry));
+
+  // Batch bookings carry several <TxDtls>; the counterparty is only meaningful for one.
+  const details = children(child(ntry, "NtryDtls"), "TxDtls");
+  const tx = details.length === 1 ? details[0] : undefined;
+  const parties = child(tx, "RltdPties");
+  const agents = child(tx, "RltdAgts");
+  const isDebit = amount < 0;
+  const counterparty = party(parties, isDebit ? "Cdtr" : "Dbtr");
+  const bankCode = agentCode(agents, isDebit ? "CdtrAgt" : "DbtrAgt");
+  if (counterparty && bankCode) counterparty.bankCode = bankCode;
+
+  const remittance = children(child(tx, "RmtInf"), "Ustrd")
+    .map((u) => u.text)
+    .join(" ");
+  const info = remittance || childText(tx, "AddtlTxInf") || childText(ntry, "AddtlNtryInf") || "";
+  const batch = details.length > 1 ? `Batch of ${details.length} transactions` : "";
+  const description = [counterparty?.name, info || batch].filter(Boolean).join(" - ") || "(no details)";
+
+  return {
+    date,
+    valueDate: camtDate(child(ntry, "ValDt")),
+    description: description.replace(/\s+/g, " ").trim(),
+    amount,
+    drCr: isDebit ? "DR" : "CR",
+    currency: ccy ?? currency,
+    category: inferCategory(description),
+    confidence: 0.98,
+    sourceParser: "camt053-v1",
+    externalId: usable(childText(ntry, "AcctSvcrRef")) ?? usable(childText(tx, "Refs", "AcctSvcrRef")),
+    counterparty,
+    reference: usable(childText(tx, "Refs", "EndToEndId")) ?? usable(childText(tx, "Refs", "InstrId")),
+  };
+}
+
+// ISO 20022 bank-to-customer statement (camt.053, any .001.xx version).
+export function importCamt053(bytes: Uint8Array): StatementImportResult {
+  const doc = parseXml(decodeText(bytes).text);
+  const root = child(doc, "BkToCstmrStmt");
+  if (doc.name !== "Document" || !root) {
+    throw new ImportError("Not a CAMT.053 document: expected <Document><BkToCstmrStmt>.", at(doc));
+  }
+  const statements = children(root, "Stmt");
+  if (statements.length === 0) throw new ImportError("The document contains no <Stmt>.", at(root));
+
+  const txns: ParserTxn[] = [];
+  const first = statements[0];
+  const currency = childText(first, "Acct", "Ccy") ?? "INR";
+  for (const stmt of statements) {
+    const stmtCurrency = childText(stmt, "Acct", "Ccy") ?? currency;
+    for (const ntry of children(stmt, "Ntry")) {
+      const txn = entryToTxn(ntry, stmtCurrency);
+      if (txn) txns.push(txn);
+    }
+  }
+
+  const last = statements[statements.length - 1];
+  return {
+    txns,
+    currency,
+    account: childText(first, "Acct", "Id", "IBAN") ?? childText(first, "Acct", "Id", "Othr", "Id"),
+    openingBalance: balance(first, ["OPBD", "PRCD"]),
+    closingBalance: balance(last, ["CLBD"]),
+  };
+}
@@ -0,0 +1,344 @@
+import { dateContextOf, inferCategory, parseAmount, parseDate, type DateContext } from "@/lib/parsers/common";
+import type { ParserTxn } from "@/lib/parsers/types";
+import { ImportError } from "./errors";
+import { TABLE_PRESETS, type TablePreset } from "./presets";
+
+export type ColumnRole =
+  | "date"
+  | "valueDate"
+  | "description"
+  | "reference"
+  | "withdrawal"
+  | "deposit"
+  | "amount"
+  | "drCr"
+  | "balance";
+
+export type ColumnMapping = Partial<Record<ColumnRole, number>>;
+
+export type ColumnMappingInfo = {
+  presetId?: string;
+  label: string;
+  columns: Partial<Record<ColumnRole, string>>;
+};
+
+export type TableImportResult = {
+  txns: ParserTxn[];
+  mapping: ColumnMappingInfo;
+  headerRowIndex: number;
+  skippedRows: number;
+};
+
+const HEADER_SCAN_ROWS = 50;
+
+export function normalizeHeader(cell: string): string {
+  return cell
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+// Ordered so that the more specific captions win ("value date" before "date",
+// "dr cr" before "dr").
+export function guessRole(header: string): ColumnRole | null {
+  if (!header) return null;
+  if (/\bvalue (date|dt)\b/.test(header)) return "valueDate";
+  if (/^(dr cr|cr dr|type|txn type|transaction type|debit credit|credit debit)$/.test(header)) return "drCr";
+  if (/\b(balance|bal)\b/.test(header)) return "balance";
+  if (/\b(date|dt)\b/.test(header)) return "date";
+  if (/\b(narration|description|particulars|remarks|details)\b/.test(header)) return "description";
+  if (/\b(chq|cheque|chqno|ref|reference|utr|instrument)\b/.test(header)) return "reference";
+  if (/^(dr|debit|withdrawal|withdrawals|paid out|money out)\b/.test(header)) return "withdrawal";
+  if (/\b(withdrawal amt|withdrawal amount|debit amount|debit amt)\b/.test(header)) return "withdrawal";
+  if (/^(cr|credit|deposit|deposits|paid in|money in)\b/.test(header)) return "deposit";
+  if (/\b(deposit amt|deposit amount|credit amount|credit amt)\b/.test(header)) return "deposit";
+  if (/\b(amount|amt)\b/.test(header)) return "amount";
+  return null;
+}
+
+function guessMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  headers.forEach((h, index) => {
+    const role = guessRole(h);
+    if (role && mapping[role] === undefined) mapping[role] = index;
+  });
+  return mapping;
+}
+
+function presetMapping(preset: TablePreset, headers: string[]): ColumnMapping | null {
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+  for (const [role, aliases] of Object.entries(preset.columns) as Array<[ColumnRole, string[]]>) {
+    const index = headers.findIndex((h, i) => !used.has(i) && aliases.includes(h));
+    if (index < 0) return null;
+    mapping[role] = index;
+    used.add(index);
+  }
+  return mapping;
+}
+
+function hasAmountColumns(mapping: ColumnMapping): boolean {
+  return mapping.amount !== undefined || mapping.withdrawal !== undefined || mapping.deposit !== undefined;
+}
+
+function mappingScore(mapping: ColumnMapping): number {
+  if (mapping.date === undefined || !hasAmountColumns(mapping)) return 0;
+  return Object.keys(mapping).length;
+}
+
+type HeaderMatch = { index: number; mapping: ColumnMapping; preset?: TablePreset };
+
+function findHeader(rows: string[][]): HeaderMatch | null {
+  const limit = Math.min(rows.length, HEADER_SCAN_ROWS);
+
+  for (let i = 0; i < limit; i++) {
+    const headers = rows[i].map(normalizeHeader);
+    for (const preset of TABLE_PRESETS) {
+      const mapping = presetMapping(preset, headers);
+      if (mapping) return { index: i, mapping, preset };
+    }
+  }
+
+  let best: HeaderMatch | null = null;
+  let bestScore = 2;
+  for (let i = 0; i < limit; i++) {
+    const mapping = guessMapping(rows[i].map(normalizeHeader));
+    const score = mappingScore(mapping);
+    if (score > bestScore) {
+      best = { index: i, mapping };
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+function cellAt(row: string[], index: number | undefined): string {
+  return index === undefined ? "" : (row[index] ?? "").trim();
+}
+
+function datePartOf(cell: string): string {
+  return cell.replace(/\s+\d{1,2}:\d{2}(?::\d{2})?(?:\s*[AP]M)?$/i, "").trim();
+}
+
+function parseDateCell(cell: string, dates?: DateContext): string | null {
+  return cell ? parseDate(datePartOf(cell), dates) : null;
+}
+
+function parseMarker(cell: string): "DR" | "CR" | undefined {
+  const c = cell.trim().toUpperCase().replace(/\.$/, "");
+  if (c === "DR" || c === "D" || c === "DEBIT" || c === "WITHDRAWAL") return "DR";
+  if (c === "CR" || c === "C" || c === "CREDIT" || c === "DEPOSIT") return "CR";
+  return undefined;
+}
+
+function parseAmountCell(cell: string): { value: number; marker?: "DR" | "CR" } | null {
+  const amount = parseAmount(cell);
+  return amount && { value: amount.value, marker: amount.marker };
+}
+
+// When the header row does not name a date or description column, fall back
+// to the data: the date column is the one that parses as dates most often and
+// the description column is the one with the longest text.
+function fillFromData(mapping: ColumnMapping, dataRows: string[][]): void {
+  const sample = dataRows.slice(0, 30);
+  const width = Math.max(0, ...sample.map((r) => r.length));
+  const taken = new Set(Object.values(mapping));
+
+  if (mapping.date === undefined) {
+    let bestCol = -1;
+    let bestHits = 0;
+    for (let c = 0; c < width; c++) {
+      if (taken.has(c)) continue;
+      const hits = sample.filter((r) => parseDateCell(cellAt(r, c)) !== null).length;
+      if (hits > bestHits) {
+        bestCol = c;
+        bestHits = hits;
+      }
+    }
+    if (bestCol >= 0 && bestHits >= sample.length * 0.6) {
+      mapping.date = bestCol;
+      taken.add(bestCol);
+    }
+  }
+
+  if (mapping.description === undefined) {
+    let bestCol = -1;
+    let bestLen = 0;
+    for (let c = 0; c < width; c++) {
+      if (taken.has(c)) continue;
+      const avg = sample.reduce((s, r) => s + cellAt(r, c).length, 0) / Math.max(1, sample.length);
+      const mostlyText = sample.filter((r) => /[A-Za-z]{3,}/.test(cellAt(r, c))).length >= sample.length / 2;
+      if (mostlyText && avg > bestLen) {
+        bestCol = c;
+        bestLen = avg;
+      }
+    }
+    if (bestCol >= 0) mapping.description = bestCol;
+  }
+}
+
+// Some exports have no caption row at all. Treat every row as data and assign
+// the numeric columns positionally: [amount], [amount, balance] or
+// [..., withdrawal, deposit, balance].
+function guessHeaderless(rows: string[][]): ColumnMapping | null {
+  const mapping: ColumnMapping = {};
+  fillFromData(mapping, rows);
+  if (mapping.date === undefined) return null;
+
+  const sample = rows.slice(0, 30);
+  const width = Math.max(0, ...sample.map((r) => r.length));
+  const numeric: number[] = [];
+  for (let c = 0; c < width; c++) {
+    if (c === mapping.date || c === mapping.description) continue;
+    const hits = sample.filter((r) => parseAmountCell(cellAt(r, c)) !== null).length;
+    const blanks = sample.filter((r) => cellAt(r, c) === "").length;
+    if (hits > 0 && hits + blanks >= sample.length * 0.9) numeric.push(c);
+  }
+
+  if (numeric.length === 1) mapping.amount = numeric[0];
+  else if (numeric.length === 2) [mapping.amount, mapping.balance] = numeric;
+  else if (numeric.length >= 3) [mapping.withdrawal, mapping.deposit, mapping.balance] = numeric.slice(-3);
+  else return null;
+  return mapping;
+}
+
+// `dates` defaults to the order and span of the table's own date column, so an
+// export in MM/DD order is read as such once any of its dates shows it.
+export function rowsToTxns(
+  rows: string[][],
+  mapping: ColumnMapping,
+  sourceParser: string,
+  baseConfidence: number,
+  dates: DateContext = dateContextOf(rows.map((r) => datePartOf(cellAt(r, mapping.date))))
+) {
+  const txns: ParserTxn[] = [];
+  let skippedRows = 0;
+  let prevBalance: number | null = null;
+
+  for (const row of rows) {
+    const date = parseDateCell(cellAt(row, mapping.date), dates);
+    const description = cellAt(row, mapping.description).replace(/\s+/g, " ");
+    const balanceCell = parseAmountCell(cellAt(row, mapping.balance));
+    const balance = balanceCell
+      ? balanceCell.marker === "DR"
+        ? -Math.abs(balanceCell.value)
+        : balanceCell.value
+      : null;
+
+    if (/opening balance|balance b\/?f|brought forward/i.test(description)) {
+      if (balance !== null) prevBalance = balance;
+      continue;
+    }
+    if (!date) {
+      skippedRows++;
+      continue;
+    }
+
+    const withdrawal = parseAmountCell(cellAt(row, mapping.withdrawal));
+    const deposit = parseAmountCell(cellAt(row, mapping.deposit));
+    const amountCell = parseAmountCell(cellAt(row, mapping.amount));
+    const marker = parseMarker(cellAt(row, mapping.drCr)) ?? amountCell?.marker;
+
+    let amount: number | null = null;
+    let confidence = baseConfidence;
+    if (withdrawal && withdrawal.value !== 0) amount = -Math.abs(withdrawal.value);
+    if (deposit && deposit.value !== 0) amount = (amount ?? 0) + Math.abs(deposit.value);
+
+    if (amount === null && amountCell) {
+      const abs = Math.abs(amountCell.value);
+      if (marker) {
+        amount = marker === "DR" ? -abs : abs;
+      } else if (amountCell.value < 0) {
+        amount = amountCell.value;
+      } else if (balance !== null && prevBalance !== null) {
+        const delta = balance - prevBalance;
+        amount = Math.abs(delta + abs) < Math.abs(delta - abs) ? -abs : abs;
+        confidence = Math.min(confidence, 0.72);
+      } else {
+        const creditHint = /(salary|interest|refund|credit|deposit|cashback|received)/i.test(description);
+        amount = creditHint ? abs : -abs;
+        confidence = Math.min(confidence, 0.6);
+      }
+    }
+
+    if (amount === null && balance !== null && prevBalance !== null) {
+      amount = balance - prevBalance;
+      confidence = Math.min(confidence, 0.66);
+    }
+
+    if (balance !== null) prevBalance = balance;
+    if (amount === null || !description) {
+      skippedRows++;
+      continue;
+    }
+
+    txns.push({
+      date,
+      description,
+      amount,
+      drCr: amount >= 0 ? "CR" : "DR",
+      currency: "INR",
+      category: inferCategory(description),
+      confidence,
+      sourceParser,
+      valueDate: parseDateCell(cellAt(row, mapping.valueDate), dates) ?? undefined,
+      balance: balance ?? undefined,
+      reference: cellAt(row, mapping.reference) || undefined,
+    });
+  }
+
+  return { txns, skippedRows };
+}
+
+function headerlessTable(rows: string[][]): HeaderMatch | null {
+  const mapping = guessHeaderless(rows);
+  return mapping ? { index: -1, mapping } : null;
+}
+
+// Locate the transaction table in a grid of cells (CSV rows, spreadsheet rows)
+// and turn it into parser transactions. Known bank layouts are tried first;
+// anything else goes through the keyword/data column guesser.
+export function mapTable(rows: string[][], source: string): TableImportResult {
+  const header = findHeader(rows) ?? headerlessTable(rows);
+  if (!header) {
+    throw new ImportError(
+      "Could not find a transaction header row. Expected columns such as Date, Narration, Withdrawal, Deposit and Balance."
+    );
+  }
+
+  const headerCells = rows[header.index] ?? [];
+  const dataRows = rows.slice(header.index + 1);
+  const mapping = { ...header.mapping };
+  if (!header.preset) fillFromData(mapping, dataRows);
+  if (mapping.date === undefined || mapping.description === undefined || !hasAmountColumns(mapping)) {
+    throw new ImportError("Could not map date, description and amount columns.", `row ${header.index + 1}`);
+  }
+
+  const presetId = header.preset?.id;
+  const { txns, skippedRows } = rowsToTxns(
+    dataRows,
+    mapping,
+    `${source}:${presetId ?? "heuristic"}`,
+    header.preset ? 0.92 : 0.8
+  );
+
+  const columns: Partial<Record<ColumnRole, string>> = {};
+  for (const [role, index] of Object.entries(mapping) as Array<[ColumnRole, number]>) {
+    columns[role] = headerCells[index] || `column ${index + 1}`;
+  }
+
+  return {
+    txns,
+    mapping: { presetId, label: header.preset ? `${header.preset.label} preset` : "heuristic column mapping", columns },
+    headerRowIndex: header.index,
+    skippedRows,
+  };
+}
+
+export function describeMapping(mapping: ColumnMappingInfo): string {
+  if (mapping.presetId) return mapping.label;
+  const cols = Object.entries(mapping.columns)
+    .map(([role, header]) => `${role}="${header}"`)
+    .join(", ");
+  return `${mapping.label} (${cols})`;
+}
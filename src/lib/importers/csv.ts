@@ -0,0 +1,145 @@
+import { ImportError } from "./errors";
+import { mapTable, type TableImportResult } from "./columns";
+
+export type CsvImportResult = TableImportResult & {
+  encoding: string;
+  delimiter: string;
+};
+
+const DELIMITERS = [",", "\t", ";", "|"];
+
+// Bank exports are mostly UTF-8, but older netbanking portals still emit
+// UTF-16 (Excel "Unicode text") or Windows-1252.
+export function decodeText(bytes: Uint8Array): { text: string; encoding: string } {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { text: new TextDecoder("utf-8").decode(bytes.subarray(3)), encoding: "utf-8" };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { text: new TextDecoder("utf-16le").decode(bytes.subarray(2)), encoding: "utf-16le" };
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { text: new TextDecoder("utf-16be").decode(bytes.subarray(2)), encoding: "utf-16be" };
+  }
+
+  // BOM-less UTF-16: ASCII text has a zero byte in every other position.
+  const sample = bytes.subarray(0, Math.min(bytes.length, 512));
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] !== 0) continue;
+    if (i % 2 === 0) evenZeros++;
+    else oddZeros++;
+  }
+  if (sample.length >= 4 && oddZeros > sample.length / 4 && evenZeros === 0) {
+    return { text: new TextDecoder("utf-16le").decode(bytes), encoding: "utf-16le" };
+  }
+  if (sample.length >= 4 && evenZeros > sample.length / 4 && oddZeros === 0) {
+    return { text: new TextDecoder("utf-16be").decode(bytes), encoding: "utf-16be" };
+  }
+
+  try {
+    return { text: new TextDecoder("utf-8", { fatal: true }).decode(bytes), encoding: "utf-8" };
+  } catch {
+    return { text: new TextDecoder("windows-1252").decode(bytes), encoding: "windows-1252" };
+  }
+}
+
+function countOutsideQuotes(line: string, delimiter: string): number {
+  let count = 0;
+  let quoted = false;
+  for (const ch of line) {
+    if (ch === '"') quoted = !quoted;
+    else if (ch === delimiter && !quoted) count++;
+  }
+  return count;
+}
+
+// Pick the delimiter that splits the most lines into the same, non-trivial
+// number of fields. Banner rows above the table are allowed to disagree.
+export function sniffDelimiter(text: string): string {
+  const lines = text
+    .split(/\r?\n/)
+    .filter((l) => l.trim().length > 0)
+    .slice(0, 40);
+
+  let best = ",";
+  let bestScore = 0;
+  for (const delimiter of DELIMITERS) {
+    const counts = lines.map((l) => countOutsideQuotes(l, delimiter)).filter((c) => c > 0);
+    if (counts.length === 0) continue;
+
+    const freq = new Map<number, number>();
+    for (const c of counts) freq.set(c, (freq.get(c) ?? 0) + 1);
+    const [modeCount, modeLines] = Array.from(freq.entries()).sort((a, b) => b[1] - a[1] || b[0] - a[0])[0];
+    const score = modeLines * Math.min(modeCount, 10);
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+// RFC 4180 style split: quoted fields may contain delimiters, doubled quotes
+// and newlines.
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' && field.trim().length === 0) {
+      field = "";
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field.trim());
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field.trim());
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field.trim());
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((cell) => cell.length > 0));
+}
+
+export function importCsv(bytes: Uint8Array): CsvImportResult {
+  const { text, encoding } = decodeText(bytes);
+  if (!text.trim()) throw new ImportError("The CSV file is empty.");
+
+  const delimiter = sniffDelimiter(text);
+  const rows = parseDelimited(text, delimiter);
+  return { ...mapTable(rows, "csv"), encoding, delimiter };
+}
+
+export function describeDelimiter(delimiter: string): string {
+  if (delimiter === "\t") return "tab";
+  if (delimiter === ",") return "comma";
+  if (delimiter === ";") return "semicolon";
+  if (delimiter === "|") return "pipe";
+  return JSON.stringify(delimiter);
+}
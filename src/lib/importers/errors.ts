@@ -0,0 +1,14 @@
+// Raised by file importers when the input cannot be turned into transactions.
+// `location` points at the row/line/element that failed, when known, and
+// `reason` is the message without it.
+export class ImportError extends Error {
+  readonly reason: string;
+  readonly location?: string;
+
+  constructor(message: string, location?: string) {
+    super(location ? `${message} (at ${location})` : message);
+    this.name = "ImportError";
+    this.reason = message;
+    this.location = location;
+  }
+}
@@ -0,0 +1,157 @@
+import * as XLSX from "xlsx";
+import { mapTable, normalizeHeader, type TableImportResult } from "./columns";
+import { ImportError } from "./errors";
+
+export type ExcelImportResult = TableImportResult & {
+  sheetName: string;
+  sheetCount: number;
+};
+
+// 1900-01-01 .. 2099-12-31 in the 1900 date system.
+const MIN_SERIAL = 1;
+const MAX_SERIAL = 73050;
+const HEADER_SCAN_ROWS = 50;
+// Years of daily transactions fit well within this; anything longer is not a
+// statement, and reading it whole would only cost memory.
+const MAX_SHEET_ROWS = 50_000;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Excel stores dates as day counts. The 1900 system counts from 1899-12-30
+// (absorbing Lotus' phantom 1900-02-29); the 1904 system from 1904-01-01.
+export function excelSerialToIso(serial: number, date1904 = false): string {
+  const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30);
+  const shifted = !date1904 && serial < 61 ? serial + 1 : serial;
+  return new Date(epoch + Math.floor(shifted) * 86_400_000).toISOString().slice(0, 10);
+}
+
+// Number formats such as "dd/mm/yyyy", "d-mmm-yy" or "[$-409]mmm d, yyyy".
+// Quoted literals, escapes and bracketed locale/colour codes are ignored.
+function isDateFormat(format: string | undefined): boolean {
+  if (!format || format === "General") return false;
+  const bare = format.replace(/"[^"]*"|\\.|\[[^\]]*\]/g, "");
+  return /[dy]/i.test(bare) || /m{3,}/i.test(bare);
+}
+
+function cellText(cell: XLSX.CellObject | undefined, date1904: boolean): string {
+  if (!cell || cell.v === undefined || cell.v === null) return "";
+  if (cell.t === "n" && typeof cell.v === "number") {
+    if (isDateFormat(cell.z as string | undefined)) return excelSerialToIso(cell.v, date1904);
+    return String(cell.v);
+  }
+  if (cell.t === "b") return cell.v ? "TRUE" : "FALSE";
+  if (cell.t === "e") return "";
+  return String(cell.w ?? cell.v).trim();
+}
+
+// Banks merge caption cells across two header rows ("Amount" over
+// "Debit | Credit") or down a column ("Date" spanning both rows). Copying the
+// top-left value across the merged range gives every header row full captions.
+function fillMerges(grid: string[][], merges: XLSX.Range[], origin: XLSX.CellAddress) {
+  for (const m of merges) {
+    const value = grid[m.s.r - origin.r]?.[m.s.c - origin.c] ?? "";
+    if (!value) continue;
+    for (let r = m.s.r; r <= m.e.r; r++) {
+      const row = grid[r - origin.r];
+      if (!row) continue;
+      for (let c = m.s.c; c <= m.e.c; c++) {
+        if (!row[c - origin.c]) row[c - origin.c] = value;
+      }
+    }
+  }
+}
+
+// Date columns exported without a date format arrive as bare serials (45321).
+// Convert integer columns in the serial range whose caption mentions a date.
+function convertSerialDateColumns(grid: string[][], date1904: boolean) {
+  const width = Math.max(0, ...grid.map((r) => r.length));
+  const scan = grid.slice(0, HEADER_SCAN_ROWS);
+
+  for (let c = 0; c < width; c++) {
+    // The last caption wins: merged headers repeat it on the sub-header row.
+    const headerRow = scan.findLastIndex((r) => /\b(date|dt)\b/.test(normalizeHeader(r[c] ?? "")));
+    if (headerRow < 0) continue;
+    const values = grid
+      .slice(headerRow + 1)
+      .map((r) => r[c] ?? "")
+      .filter((v) => v && !ISO_DATE.test(v));
+    const serials = values.filter((v) => /^\d+(\.\d+)?$/.test(v) && +v >= MIN_SERIAL && +v <= MAX_SERIAL);
+    if (values.length === 0 || serials.length < values.length * 0.6) continue;
+
+    for (let r = headerRow + 1; r < grid.length; r++) {
+      const v = grid[r][c];
+      if (v && serials.includes(v)) grid[r][c] = excelSerialToIso(Number(v), date1904);
+    }
+  }
+}
+
+// The declared !ref can reach far past the data (a column formatted down to row
+// 1048576, or a crafted file), so the grid is bounded by the cells that exist.
+function usedRange(sheet: XLSX.WorkSheet, declared: XLSX.Range): XLSX.Range | null {
+  let used: XLSX.Range | null = null;
+  for (const key of Object.keys(sheet)) {
+    if (key.startsWith("!")) continue;
+    const { r, c } = XLSX.utils.decode_cell(key);
+    if (r < declared.s.r || r > declared.e.r || c < declared.s.c || c > declared.e.c) continue;
+    if (!used) {
+      used = { s: { r, c }, e: { r, c } };
+      continue;
+    }
+    used.s.r = Math.min(used.s.r, r);
+    used.s.c = Math.min(used.s.c, c);
+    used.e.r = Math.max(used.e.r, r);
+    used.e.c = Math.max(used.e.c, c);
+  }
+  return used;
+}
+
+function sheetGrid(sheet: XLSX.WorkSheet, date1904: boolean): string[][] {
+  const ref = sheet["!ref"];
+  if (!ref) return [];
+  const range = usedRange(sheet, XLSX.utils.decode_range(ref));
+  if (!range) return [];
+  const grid: string[][] = [];
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    const row: string[] = [];
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      row.push(cellText(sheet[XLSX.utils.encode_cell({ r, c })] as XLSX.CellObject | undefined, date1904));
+    }
+    grid.push(row);
+  }
+  fillMerges(grid, sheet["!merges"] ?? [], range.s);
+  convertSerialDateColumns(grid, date1904);
+  return grid.filter((row) => row.some((cell) => cell !== ""));
+}
+
+// Netbanking "Download as Excel" files are XLSX, BIFF .xls or an HTML table
+// saved with an .xls name; SheetJS reads all three. Every sheet is mapped and
+// the one yielding the most transactions wins.
+export function importExcel(bytes: Uint8Array): ExcelImportResult {
+  let workbook: XLSX.WorkBook;
+  try {
+    workbook = XLSX.read(bytes, { type: "array", cellNF: true, cellText: true, sheetRows: MAX_SHEET_ROWS });
+  } catch (err: unknown) {
+    throw new ImportError(`Could not read the workbook: ${err instanceof Error ? err.message : "unknown error"}.`);
+  }
+
+  const date1904 = Boolean(workbook.Workbook?.WBProps?.date1904);
+  let best: ExcelImportResult | null = null;
+  let firstError: ImportError | null = null;
+
+  for (const sheetName of workbook.SheetNames) {
+    const grid = sheetGrid(workbook.Sheets[sheetName], date1904);
+    if (grid.length === 0) continue;
+    try {
+      const result = mapTable(grid, "excel");
+      if (!best || result.txns.length > best.txns.length) {
+        best = { ...result, sheetName, sheetCount: workbook.SheetNames.length };
+      }
+    } catch (err: unknown) {
+      if (!(err instanceof ImportError)) throw err;
+      const location = [`sheet "${sheetName}"`, err.location].filter(Boolean).join(", ");
+      firstError ??= new ImportError(err.reason, location);
+    }
+  }
+
+  if (best) return best;
+  throw firstError ?? new ImportError("The workbook has no non-empty sheets.");
+}
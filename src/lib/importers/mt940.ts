@@ -0,0 +1,177 @@
+import { inferCategory } from "@/lib/parsers/common";
+import type { ParserTxn } from "@/lib/parsers/types";
+import type { Counterparty, LedgerBalance } from "@/lib/types/analyze";
+import type { StatementImportResult } from "./camt";
+import { decodeText } from "./csv";
+import { ImportError } from "./errors";
+
+type Field = { tag: string; value: string; line: number };
+
+// :61: YYMMDD [MMDD] (C|D|RC|RD) [funds code] amount type-code customer-ref [//bank-ref] [\n details]
+const STATEMENT_LINE_RE =
+  /^(\d{6})(\d{4})?(RC|RD|C|D)([A-Z])?(\d+,\d*)([NSF][A-Z0-9]{3})([^\n/]*(?:\/(?!\/)[^\n/]*)*)(?:\/\/([^\n]*))?(?:\n([\s\S]*))?$/;
+const BALANCE_RE = /^([CD])(\d{6})([A-Z]{3})(\d+,\d*)$/;
+
+// Keywords of the SWIFT-style structured :86: ("/EREF/.../NAME/.../REMI/...").
+const INFO_KEYS = ["EREF", "PREF", "MARF", "CSID", "NAME", "IBAN", "ACCT", "BIC", "REMI", "CNTP", "ORDP", "BENM", "TRTP", "ADDR"];
+
+function splitFields(text: string): Field[] {
+  const fields: Field[] = [];
+  text.split(/\r?\n/).forEach((raw, idx) => {
+    // SWIFT envelopes wrap each message in {1:..}{2:..}{4: ... -}.
+    const line = raw.replace(/^(\{\d:[^{}]*(\{[^{}]*\})*\})*\{4:/, "").replace(/^-\}.*$/, "").trimEnd();
+    if (!line) return;
+    const m = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (m) fields.push({ tag: m[1], value: m[2], line: idx + 1 });
+    else if (fields.length > 0) fields[fields.length - 1].value += `\n${line}`;
+    else throw new ImportError("Expected a :tag: field.", `line ${idx + 1}`);
+  });
+  return fields;
+}
+
+function swiftAmount(raw: string): number {
+  return Number(raw.replace(",", "."));
+}
+
+function swiftDate(yymmdd: string): string {
+  const yy = Number(yymmdd.slice(0, 2));
+  // SWIFT years are two digits; 80..99 are taken as 19xx.
+  const year = yy >= 80 ? 1900 + yy : 2000 + yy;
+  return `${year}-${yymmdd.slice(2, 4)}-${yymmdd.slice(4, 6)}`;
+}
+
+function parseBalance(field: Field): LedgerBalance {
+  const m = field.value.trim().match(BALANCE_RE);
+  if (!m) throw new ImportError(`Malformed :${field.tag}: balance "${field.value.trim()}".`, `line ${field.line}`);
+  const value = swiftAmount(m[4]);
+  return { amount: m[1] === "D" ? -value : value, asOf: swiftDate(m[2]), currency: m[3] };
+}
+
+type Info = { description: string; counterparty?: Counterparty; reference?: string };
+
+function keywordInfo(text: string): Info | null {
+  const re = new RegExp(`/(${INFO_KEYS.join("|")})/`, "g");
+  const marks = Array.from(text.matchAll(re));
+  if (marks.length === 0 || marks[0].index !== 0) return null;
+  const values: Record<string, string> = {};
+  marks.forEach((m, i) => {
+    const start = (m.index ?? 0) + m[0].length;
+    const end = marks[i + 1]?.index ?? text.length;
+    values[m[1]] ??= text.slice(start, end).replace(/\/$/, "").trim();
+  });
+
+  // CNTP is account/BIC/name/city in one value.
+  const [cntpAccount, cntpBic, cntpName] = (values.CNTP ?? "").split("/");
+  const counterparty: Counterparty = {
+    name: values.NAME || cntpName || undefined,
+    account: values.IBAN || values.ACCT || cntpAccount || undefined,
+    bankCode: values.BIC || cntpBic || undefined,
+  };
+  const hasParty = counterparty.name || counterparty.account;
+  return {
+    description: [counterparty.name, values.REMI || values.TRTP].filter(Boolean).join(" - "),
+    counterparty: hasParty ? counterparty : undefined,
+    reference: values.EREF && values.EREF !== "NOTPROVIDED" ? values.EREF : undefined,
+  };
+}
+
+// German-style ":86:166?00SEPA-UEBERWEISUNG?20remittance?30BIC?31IBAN?32name".
+function subfieldInfo(text: string): Info | null {
+  if (!/^\d{3}\?/.test(text)) return null;
+  const sub: Record<string, string> = {};
+  for (const m of text.slice(3).matchAll(/\?(\d{2})([^?]*)/g)) sub[m[1]] = (sub[m[1]] ?? "") + m[2];
+  const remittance = Object.keys(sub)
+    .filter((k) => (k >= "20" && k <= "29") || (k >= "60" && k <= "63"))
+    .sort()
+    .map((k) => sub[k])
+    .join("");
+  const name = [sub["32"], sub["33"]].filter(Boolean).join("") || undefined;
+  const counterparty: Counterparty = { name, account: sub["31"] || undefined, bankCode: sub["30"] || undefined };
+  const eref = remittance.match(/EREF\+(\S+)/)?.[1];
+  // SEPA remittance starts with EREF+/KREF+/MREF+/CRED+ identifiers before SVWZ+ (the purpose text).
+  const purpose = remittance.replace(/(?:(?:EREF|KREF|MREF|CRED)\+\S*\s*)*/y, "").replace(/^SVWZ\+/, "");
+  return {
+    description: [name, purpose || sub["00"]].filter(Boolean).join(" - "),
+    counterparty: name || counterparty.account ? counterparty : undefined,
+    reference: eref && eref !== "NOTPROVIDED" ? eref : undefined,
+  };
+}
+
+function parseInfo(raw: string): Info {
+  const text = raw.replace(/\n/g, "");
+  return keywordInfo(text) ?? subfieldInfo(text) ?? { description: raw.replace(/\s+/g, " ").trim() };
+}
+
+// Entry dates are MMDD; take the year from the value date and correct across New Year.
+function bookingDate(valueDate: string, mmdd: string | undefined): string {
+  if (!mmdd) return valueDate;
+  let year = Number(valueDate.slice(0, 4));
+  const valueMonth = Number(valueDate.slice(5, 7));
+  const entryMonth = Number(mmdd.slice(0, 2));
+  if (valueMonth === 12 && entryMonth === 1) year++;
+  if (valueMonth === 1 && entryMonth === 12) year--;
+  return `${year}-${mmdd.slice(0, 2)}-${mmdd.slice(2, 4)}`;
+}
+
+function statementLine(field: Field, info: string | undefined, currency: string): ParserTxn {
+  const m = field.value.match(STATEMENT_LINE_RE);
+  if (!m) throw new ImportError("Malformed :61: statement line.", `line ${field.line}`);
+  const [, valueRaw, entryRaw, mark, , amountRaw, typeCode, customerRef, bankRef, supplementary] = m;
+
+  // RC/RD reverse an earlier credit/debit, so they book in the opposite direction.
+  const value = swiftAmount(amountRaw);
+  const amount = mark === "D" || mark === "RC" ? -value : value;
+  const valueDate = swiftDate(valueRaw);
+  const parsed = info ? parseInfo(info) : { description: "" };
+  const custRef = customerRef.trim();
+  const description =
+    parsed.description || supplementary?.replace(/\s+/g, " ").trim() || `${typeCode} ${custRef}`.trim();
+
+  return {
+    date: bookingDate(valueDate, entryRaw),
+    valueDate,
+    description,
+    amount,
+    drCr: amount >= 0 ? "CR" : "DR",
+    currency,
+    category: inferCategory(description),
+    confidence: 0.97,
+    sourceParser: "mt940-v1",
+    externalId: bankRef?.trim() || undefined,
+    counterparty: parsed.counterparty,
+    reference: parsed.reference ?? (custRef && custRef !== "NONREF" ? custRef : undefined),
+  };
+}
+
+// SWIFT MT940 customer statement. A file may hold several messages (one per
+// day or per page); opening balance comes from the first, closing from the last.
+export function importMt940(bytes: Uint8Array): StatementImportResult {
+  const fields = splitFields(decodeText(bytes).text);
+  if (!fields.some((f) => f.tag === "61" || f.tag.startsWith("60"))) {
+    throw new ImportError("Not an MT940 file: no :60F: opening balance or :61: statement lines.");
+  }
+
+  const txns: ParserTxn[] = [];
+  let account: string | undefined;
+  let openingBalance: LedgerBalance | undefined;
+  let closingBalance: LedgerBalance | undefined;
+  let currency = "INR";
+
+  for (let i = 0; i < fields.length; i++) {
+    const field = fields[i];
+    if (field.tag === "25") {
+      account ??= field.value.trim();
+    } else if (field.tag === "60F" || field.tag === "60M") {
+      const bal = parseBalance(field);
+      openingBalance ??= bal;
+      currency = bal.currency ?? currency;
+    } else if (field.tag === "62F" || field.tag === "62M") {
+      closingBalance = parseBalance(field);
+    } else if (field.tag === "61") {
+      const next = fields[i + 1];
+      txns.push(statementLine(field, next?.tag === "86" ? next.value : undefined, currency));
+    }
+  }
+
+  return { txns, currency, account, openingBalance, closingBalance };
+}
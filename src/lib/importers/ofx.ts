@@ -0,0 +1,120 @@
+import { inferCategory } from "@/lib/parsers/common";
+import type { ParserTxn } from "@/lib/parsers/types";
+import type { LedgerBalance, StatementKind } from "@/lib/types/analyze";
+import { decodeText } from "./csv";
+import { ImportError } from "./errors";
+
+export type OfxImportResult = {
+  txns: ParserTxn[];
+  kind: StatementKind;
+  currency: string;
+  ledgerBalance?: LedgerBalance;
+  account?: string;
+  from?: string; // BANKTRANLIST DTSTART
+  to?: string; // BANKTRANLIST DTEND
+};
+
+// OFX 1.x is SGML: aggregates are closed but leaf elements usually are not
+// (<TRNAMT>-250.00 with no </TRNAMT>). Reading a leaf up to the next "<" covers
+// both that and OFX 2.x XML.
+function leaf(block: string, tag: string): string | undefined {
+  const m = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  const value = m?.[1].trim();
+  return value ? decodeEntities(value) : undefined;
+}
+
+function aggregates(block: string, tag: string): string[] {
+  return Array.from(block.matchAll(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, "gi"))).map((m) => m[1]);
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+// YYYYMMDD[HHMMSS[.XXX]][[+-]TZ[:name]] -> YYYY-MM-DD
+export function ofxDate(raw: string | undefined): string | null {
+  const m = raw?.match(/^(\d{4})(\d{2})(\d{2})/);
+  return m ? `${m[1]}-${m[2]}-${m[3]}` : null;
+}
+
+function ofxAmount(raw: string | undefined): number | null {
+  if (!raw) return null;
+  // Some European exporters write decimal commas.
+  const n = Number(raw.replace(/\s/g, "").replace(/,(\d{1,2})$/, ".$1").replace(/,/g, ""));
+  return Number.isFinite(n) ? n : null;
+}
+
+export function importOfx(bytes: Uint8Array): OfxImportResult {
+  const { text } = decodeText(bytes);
+  const start = text.search(/<OFX>/i);
+  if (start < 0) throw new ImportError("Not an OFX/QFX file: no <OFX> element found.");
+  const body = text.slice(start);
+
+  // Credit card statements use CCSTMTRS instead of STMTRS.
+  const cardStatements = aggregates(body, "CCSTMTRS");
+  const bankStatements = aggregates(body, "STMTRS");
+  const statements = [...bankStatements, ...cardStatements];
+  if (statements.length === 0) {
+    throw new ImportError("The OFX file contains no bank or credit card statement (STMTRS/CCSTMTRS).");
+  }
+
+  const txns: ParserTxn[] = [];
+  let ledgerBalance: LedgerBalance | undefined;
+  const currency = leaf(statements[0], "CURDEF") ?? "INR";
+
+  for (const statement of statements) {
+    const stmtCurrency = leaf(statement, "CURDEF") ?? currency;
+    const trns = aggregates(statement, "STMTTRN");
+
+    trns.forEach((trn, i) => {
+      const date = ofxDate(leaf(trn, "DTPOSTED"));
+      const amount = ofxAmount(leaf(trn, "TRNAMT"));
+      if (!date || amount === null) {
+        throw new ImportError("Transaction is missing DTPOSTED or TRNAMT.", `STMTTRN #${i + 1}`);
+      }
+
+      const name = leaf(trn, "NAME") ?? leaf(aggregates(trn, "PAYEE")[0] ?? "", "NAME");
+      const memo = leaf(trn, "MEMO");
+      const description =
+        [name, memo && memo !== name ? memo : undefined].filter(Boolean).join(" - ") || leaf(trn, "TRNTYPE") || "";
+
+      txns.push({
+        date,
+        description,
+        amount,
+        drCr: amount >= 0 ? "CR" : "DR",
+        currency: stmtCurrency,
+        category: inferCategory(description),
+        confidence: 0.98,
+        sourceParser: "ofx-v1",
+        externalId: leaf(trn, "FITID") ?? leaf(trn, "CHECKNUM"),
+      });
+    });
+
+    const ledger = aggregates(statement, "LEDGERBAL")[0];
+    const balAmt = ofxAmount(leaf(ledger ?? "", "BALAMT"));
+    if (!ledgerBalance && ledger && balAmt !== null) {
+      ledgerBalance = {
+        amount: balAmt,
+        asOf: ofxDate(leaf(ledger, "DTASOF")) ?? undefined,
+        currency: stmtCurrency,
+      };
+    }
+  }
+
+  const tranList = aggregates(statements[0], "BANKTRANLIST")[0] ?? "";
+  return {
+    txns,
+    kind: cardStatements.length > 0 && bankStatements.length === 0 ? "credit_card" : "savings",
+    currency,
+    ledgerBalance,
+    account: leaf(statements[0], "ACCTID"),
+    from: ofxDate(leaf(tranList, "DTSTART")) ?? undefined,
+    to: ofxDate(leaf(tranList, "DTEND")) ?? undefined,
+  };
+}
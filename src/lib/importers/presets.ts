@@ -0,0 +1,77 @@
+import type { ColumnRole } from "./columns";
+
+export type TablePreset = {
+  id: string;
+  label: string;
+  // Header aliases per column, compared after normalizeHeader().
+  columns: Partial<Record<ColumnRole, string[]>>;
+};
+
+// Header layouts of the CSV/TSV (and "Excel") downloads offered by netbanking.
+// Banks tweak captions between portal versions, so each column lists the
+// variants we have seen.
+export const TABLE_PRESETS: TablePreset[] = [
+  {
+    id: "hdfc",
+    label: "HDFC Bank",
+    columns: {
+      date: ["date"],
+      description: ["narration"],
+      reference: ["chq ref no", "chq ref number"],
+      valueDate: ["value dt", "value date"],
+      withdrawal: ["withdrawal amt", "withdrawal amount"],
+      deposit: ["deposit amt", "deposit amount"],
+      balance: ["closing balance"],
+    },
+  },
+  {
+    id: "icici",
+    label: "ICICI Bank",
+    columns: {
+      valueDate: ["value date"],
+      date: ["transaction date", "txn posted date"],
+      reference: ["cheque number", "cheque no"],
+      description: ["transaction remarks", "description"],
+      withdrawal: ["withdrawal amount inr", "withdrawal amount", "withdrawal amt inr"],
+      deposit: ["deposit amount inr", "deposit amount", "deposit amt inr"],
+      balance: ["balance inr", "balance"],
+    },
+  },
+  {
+    id: "sbi",
+    label: "State Bank of India",
+    columns: {
+      date: ["txn date"],
+      valueDate: ["value date"],
+      description: ["description"],
+      reference: ["ref no cheque no", "ref no"],
+      withdrawal: ["debit"],
+      deposit: ["credit"],
+      balance: ["balance"],
+    },
+  },
+  {
+    id: "axis",
+    label: "Axis Bank",
+    columns: {
+      date: ["tran date", "transaction date"],
+      reference: ["chqno", "chq no"],
+      description: ["particulars"],
+      withdrawal: ["dr", "debit"],
+      deposit: ["cr", "credit"],
+      balance: ["bal", "balance"],
+    },
+  },
+  {
+    id: "kotak",
+    label: "Kotak Mahindra Bank",
+    columns: {
+      date: ["date", "transaction date"],
+      description: ["description", "narration"],
+      reference: ["chq ref number", "chq ref no"],
+      amount: ["amount"],
+      drCr: ["dr cr"],
+      balance: ["balance"],
+    },
+  },
+];
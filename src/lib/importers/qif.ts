@@ -0,0 +1,131 @@
+import { normalizeCategory } from "@/lib/categorize/taxonomy";
+import { inferCategory, isValidIsoDate } from "@/lib/parsers/common";
+import type { ParserTxn } from "@/lib/parsers/types";
+import type { StatementKind } from "@/lib/types/analyze";
+import { decodeText } from "./csv";
+import { ImportError } from "./errors";
+
+export type QifImportResult = {
+  txns: ParserTxn[];
+  kind: StatementKind;
+  accountType: string;
+};
+
+type QifRecord = {
+  line: number;
+  fields: Map<string, string>;
+};
+
+const SUPPORTED_TYPES = new Set(["bank", "cash", "ccard", "oth a", "oth l"]);
+
+function splitRecords(text: string): { accountType: string; records: QifRecord[] } {
+  const lines = text.split(/\r?\n/);
+  let accountType = "";
+  const records: QifRecord[] = [];
+  let current: QifRecord | null = null;
+
+  for (let idx = 0; idx < lines.length; idx++) {
+    const line = lines[idx].trimEnd();
+    if (!line) continue;
+    if (line.startsWith("!")) {
+      const type = line.match(/^!Type:(.+)$/i);
+      if (type) accountType = type[1].trim().toLowerCase();
+      continue;
+    }
+    if (line === "^") {
+      if (current) records.push(current);
+      current = null;
+      continue;
+    }
+    current ??= { line: idx + 1, fields: new Map() };
+    const code = line[0];
+    // Split transactions repeat S/E/$; the first occurrence describes the whole entry.
+    if (!current.fields.has(code)) current.fields.set(code, line.slice(1).trim());
+  }
+  if (current) records.push(current);
+  return { accountType, records };
+}
+
+type DateParts = { a: number; b: number; year: number };
+
+// QIF dates look like 1/5/2024, 01/05/24, 1/ 5'04 (Quicken's apostrophe for
+// 2000+ years) or 2024-01-05.
+function dateParts(raw: string): DateParts | null {
+  const iso = raw.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (iso) return { a: Number(iso[2]), b: Number(iso[3]), year: Number(iso[1]) };
+  const m = raw.replace(/\s+/g, "").match(/^(\d{1,2})[/.-](\d{1,2})(['/.-])(\d{2,4})$/);
+  if (!m) return null;
+  let year = Number(m[4]);
+  if (m[4].length === 2) year = m[3] === "'" ? 2000 + year : year >= 70 ? 1900 + year : 2000 + year;
+  return { a: Number(m[1]), b: Number(m[2]), year };
+}
+
+function qifAmount(raw: string | undefined): number | null {
+  if (!raw) return null;
+  const n = Number(raw.replace(/[,\s]/g, ""));
+  return Number.isFinite(n) ? n : null;
+}
+
+export function importQif(bytes: Uint8Array): QifImportResult {
+  const { text } = decodeText(bytes);
+  const { accountType, records } = splitRecords(text);
+  if (!accountType) throw new ImportError("Not a QIF file: missing !Type: header.", "line 1");
+  if (!SUPPORTED_TYPES.has(accountType)) {
+    throw new ImportError(`QIF account type "${accountType}" is not a bank or card register.`);
+  }
+
+  const parsedDates = records.map((r) => {
+    const raw = r.fields.get("D");
+    const parts = raw ? dateParts(raw) : null;
+    if (!parts) throw new ImportError(`Invalid or missing date "${raw ?? ""}".`, `line ${r.line}`);
+    return parts;
+  });
+
+  // QIF is month-first by spec, but exports from Indian tools are day-first.
+  // Any component above 12 settles it for the whole file.
+  const dayFirst = parsedDates.some((p) => p.a > 12) && !parsedDates.some((p) => p.b > 12);
+
+  const seenIds = new Set<string>();
+  const txns: ParserTxn[] = records.map((r, i) => {
+    const { a, b, year } = parsedDates[i];
+    const [month, day] = dayFirst ? [b, a] : [a, b];
+    const date = `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+    if (!isValidIsoDate(date)) {
+      const reason = `Date "${r.fields.get("D")}" is not a calendar date (month ${month}, day ${day}).`;
+      throw new ImportError(reason, `line ${r.line}`);
+    }
+
+    const amount = qifAmount(r.fields.get("T") ?? r.fields.get("U"));
+    if (amount === null) throw new ImportError("Invalid or missing amount (T).", `line ${r.line}`);
+
+    const payee = r.fields.get("P");
+    const memo = r.fields.get("M");
+    const description = [payee, memo && memo !== payee ? memo : undefined].filter(Boolean).join(" - ");
+    // Quicken categories look like "Food:Groceries"; the first two levels are kept.
+    // Transfers are "[Account]" and fall back to inference.
+    const qifCategory = r.fields.get("L");
+    const category =
+      qifCategory && !qifCategory.startsWith("[")
+        ? normalizeCategory(qifCategory)
+        : inferCategory(description);
+
+    // Check numbers become stable IDs when they are unique in the file.
+    const checkNo = r.fields.get("N");
+    const externalId = checkNo && /^\d+$/.test(checkNo) && !seenIds.has(checkNo) ? checkNo : undefined;
+    if (externalId) seenIds.add(externalId);
+
+    return {
+      date,
+      description: description || "(no payee)",
+      amount,
+      drCr: amount >= 0 ? "CR" : "DR",
+      currency: "INR",
+      category,
+      confidence: 0.95,
+      sourceParser: "qif-v1",
+      externalId,
+    };
+  });
+
+  return { txns, kind: accountType === "ccard" ? "credit_card" : "savings", accountType };
+}
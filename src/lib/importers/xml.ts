@@ -0,0 +1,138 @@
+import { ImportError } from "./errors";
+
+// A deliberately small XML reader for bank statement documents: elements,
+// attributes, text and CDATA, with the source line of every element so
+// importers can point at what failed. No DTDs, no external entities.
+export type XmlElement = {
+  name: string; // local name, namespace prefix stripped
+  attrs: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+  line: number;
+};
+
+const ENTITIES: Record<string, string> = { lt: "<", gt: ">", amp: "&", quot: '"', apos: "'" };
+
+// The characters XML allows at all: no NULs or other C0 controls, no lone
+// surrogates, nothing past U+10FFFF.
+function isXmlChar(code: number): boolean {
+  return (
+    code === 0x9 ||
+    code === 0xa ||
+    code === 0xd ||
+    (code >= 0x20 && code <= 0xd7ff) ||
+    (code >= 0xe000 && code <= 0xfffd) ||
+    (code >= 0x10000 && code <= 0x10ffff)
+  );
+}
+
+function decode(raw: string, line: number): string {
+  return raw.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (whole, ref: string, offset: number) => {
+    // `line` is where the text starts; the reference may be further down.
+    const at = `line ${line + (raw.slice(0, offset).match(/\n/g)?.length ?? 0)}`;
+    if (ref[0] === "#") {
+      const code = ref[1] === "x" || ref[1] === "X" ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10);
+      if (!isXmlChar(code)) throw new ImportError(`Invalid character reference ${whole}.`, at);
+      return String.fromCodePoint(code);
+    }
+    const value = ENTITIES[ref.toLowerCase()];
+    if (value === undefined) throw new ImportError(`Unknown XML entity ${whole}.`, at);
+    return value;
+  });
+}
+
+function localName(qname: string): string {
+  const colon = qname.indexOf(":");
+  return colon >= 0 ? qname.slice(colon + 1) : qname;
+}
+
+export function parseXml(text: string): XmlElement {
+  const root: XmlElement = { name: "#document", attrs: {}, children: [], text: "", line: 1 };
+  const stack: Array<{ el: XmlElement; qname: string }> = [{ el: root, qname: "" }];
+  let line = 1;
+  let pos = 0;
+
+  const advance = (to: number) => {
+    for (let i = pos; i < to; i++) if (text.charCodeAt(i) === 10) line++;
+    pos = to;
+  };
+  const skipPast = (marker: string, what: string) => {
+    const end = text.indexOf(marker, pos);
+    if (end < 0) throw new ImportError(`Unterminated ${what}.`, `line ${line}`);
+    advance(end + marker.length);
+  };
+
+  while (pos < text.length) {
+    const lt = text.indexOf("<", pos);
+    const top = stack[stack.length - 1].el;
+    if (lt < 0) {
+      if (text.slice(pos).trim() && stack.length > 1) top.text += decode(text.slice(pos), line);
+      advance(text.length);
+      break;
+    }
+    if (lt > pos) {
+      const chunk = text.slice(pos, lt);
+      if (stack.length > 1) top.text += decode(chunk, line);
+      else if (chunk.trim()) throw new ImportError("Text outside the root element.", `line ${line}`);
+      advance(lt);
+    }
+
+    if (text.startsWith("<?", pos)) {
+      skipPast("?>", "processing instruction");
+    } else if (text.startsWith("<!--", pos)) {
+      skipPast("-->", "comment");
+    } else if (text.startsWith("<![CDATA[", pos)) {
+      const end = text.indexOf("]]>", pos);
+      if (end < 0) throw new ImportError("Unterminated CDATA section.", `line ${line}`);
+      top.text += text.slice(pos + 9, end);
+      advance(end + 3);
+    } else if (text.startsWith("<!", pos)) {
+      skipPast(">", "declaration");
+    } else if (text.startsWith("</", pos)) {
+      const m = text.slice(pos).match(/^<\/([^\s>]+)\s*>/);
+      if (!m) throw new ImportError("Malformed closing tag.", `line ${line}`);
+      const open = stack.pop();
+      if (!open || stack.length === 0 || open.qname !== m[1]) {
+        throw new ImportError(`Unexpected </${m[1]}>, expected </${open?.qname ?? "?"}>.`, `line ${line}`);
+      }
+      open.el.text = open.el.text.trim();
+      advance(pos + m[0].length);
+    } else {
+      const m = text.slice(pos).match(/^<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/);
+      if (!m) throw new ImportError("Malformed start tag.", `line ${line}`);
+      const attrs: Record<string, string> = {};
+      for (const a of m[2].matchAll(/([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+        attrs[localName(a[1])] = decode(a[2] ?? a[3] ?? "", line);
+      }
+      const el: XmlElement = { name: localName(m[1]), attrs, children: [], text: "", line };
+      if (stack.length === 1 && root.children.length > 0) {
+        throw new ImportError("More than one root element.", `line ${line}`);
+      }
+      top.children.push(el);
+      if (!m[3]) stack.push({ el, qname: m[1] });
+      advance(pos + m[0].length);
+    }
+  }
+
+  if (stack.length > 1) {
+    const open = stack[stack.length - 1];
+    throw new ImportError(`<${open.qname}> is never closed.`, `line ${open.el.line}`);
+  }
+  if (root.children.length === 0) throw new ImportError("The document has no root element.");
+  return root.children[0];
+}
+
+export function child(el: XmlElement | undefined, ...path: string[]): XmlElement | undefined {
+  let current = el;
+  for (const name of path) current = current?.children.find((c) => c.name === name);
+  return current;
+}
+
+export function children(el: XmlElement | undefined, name: string): XmlElement[] {
+  return el ? el.children.filter((c) => c.name === name) : [];
+}
+
+export function childText(el: XmlElement | undefined, ...path: string[]): string | undefined {
+  const value = child(el, ...path)?.text;
+  return value ? value : undefined;
+}
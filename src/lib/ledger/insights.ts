@@ -0,0 +1,177 @@
+import { splitCategory } from "@/lib/categorize/taxonomy";
+import { CARD_PAYMENT_CATEGORY } from "@/lib/parsers/card-common";
+import type { CategoryTotal, CounterpartyTotal, Insights, PaymentRail, Txn } from "@/lib/types/analyze";
+
+// Summary figures for the dashboard. Pure over the transaction list, so the
+// browser recomputes them after re-categorizing without another upload.
+
+function monthKey(dateIso: string): string | null {
+  const m = dateIso.match(/^(\d{4})-(\d{2})-\d{2}$/);
+  if (!m) return null;
+  return `${m[1]}-${m[2]}`;
+}
+
+function normalizeMerchant(description: string): string {
+  return description
+    .toUpperCase()
+    .replace(/\b(UPI|IMPS|NEFT|RTGS|POS|ATM|TO|BY|TRANSFER|PAYMENT|DEBIT|CREDIT|REF|TXN|ID)\b/g, " ")
+    .replace(/[0-9#*._/-]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// The merchant a transaction is grouped under: the one a rule or decoder set,
+// then the decoded counterparty, otherwise its narration stripped of
+// payment-rail words and references.
+export function merchantKey(t: Txn): string {
+  return (t.merchant || t.counterparty?.name)?.trim().toUpperCase() || normalizeMerchant(t.description);
+}
+
+// Transfers to and from the same person or business, however many rails and
+// references they were spread over. Names are matched case-insensitively.
+function counterpartyTotals(txns: Txn[]): CounterpartyTotal[] {
+  const groups = new Map<string, Omit<CounterpartyTotal, "rails"> & { rails: Set<PaymentRail> }>();
+  for (const t of txns) {
+    const name = t.counterparty?.name?.replace(/\s+/g, " ").trim();
+    if (!name) continue;
+    const key = name.toUpperCase();
+    const g = groups.get(key) ?? { name, count: 0, paid: 0, received: 0, lastDate: t.date, rails: new Set() };
+    const isCredit = (t.drCr ?? (t.amount >= 0 ? "CR" : "DR")) === "CR";
+    g.count += 1;
+    if (isCredit) g.received += Math.abs(t.amount);
+    else g.paid += Math.abs(t.amount);
+    if (t.date > g.lastDate) g.lastDate = t.date;
+    if (t.counterparty?.rail) g.rails.add(t.counterparty.rail);
+    groups.set(key, g);
+  }
+  return Array.from(groups.values())
+    .map(({ rails, ...g }) => ({ ...g, rails: Array.from(rails) }))
+    .sort((a, b) => b.paid + b.received - (a.paid + a.received))
+    .slice(0, 20);
+}
+
+export function buildInsights(txns: Txn[]): Insights {
+  // Paying off a credit card is a transfer from the user's own account, not income.
+  const isCardPayment = (t: Txn) => t.category === CARD_PAYMENT_CATEGORY;
+  const debits = txns.filter((t) => (t.drCr ? t.drCr === "DR" : t.amount < 0));
+  const credits = txns.filter((t) => (t.drCr ? t.drCr === "CR" : t.amount > 0) && !isCardPayment(t));
+
+  const totalDebits = debits.reduce((sum, t) => sum + Math.abs(t.amount), 0);
+  const totalCredits = credits.reduce((sum, t) => sum + Math.abs(t.amount), 0);
+  const topExpenseTxn = debits.reduce<Txn | null>((best, t) => {
+    if (!best) return t;
+    return Math.abs(t.amount) > Math.abs(best.amount) ? t : best;
+  }, null);
+  const topCreditTxn = credits.reduce<Txn | null>((best, t) => {
+    if (!best) return t;
+    return t.amount > best.amount ? t : best;
+  }, null);
+
+  // Every transaction counts towards its parent; those with a child category
+  // also towards that subcategory.
+  const parentMap = new Map<string, { total: CategoryTotal; children: Map<string, CategoryTotal> }>();
+  for (const t of txns) {
+    const { parent, child } = splitCategory(t.category);
+    const entry = parentMap.get(parent) ?? { total: { category: parent, count: 0, total: 0 }, children: new Map() };
+    entry.total.count += 1;
+    entry.total.total += Math.abs(t.amount);
+    if (child) {
+      const sub = entry.children.get(t.category) ?? { category: t.category, count: 0, total: 0 };
+      sub.count += 1;
+      sub.total += Math.abs(t.amount);
+      entry.children.set(t.category, sub);
+    }
+    parentMap.set(parent, entry);
+  }
+  const categoryBreakdown = Array.from(parentMap.values())
+    .map(({ total, children }) => ({
+      ...total,
+      subcategories: Array.from(children.values()).sort((a, b) => b.total - a.total),
+    }))
+    .sort((a, b) => b.total - a.total);
+
+  const monthMap = new Map<string, { income: number; expense: number }>();
+  for (const t of txns) {
+    const mk = monthKey(t.date);
+    if (!mk || isCardPayment(t)) continue;
+    const entry = monthMap.get(mk) ?? { income: 0, expense: 0 };
+    const type = t.drCr ?? (t.amount >= 0 ? "CR" : "DR");
+    if (type === "CR") entry.income += Math.abs(t.amount);
+    else entry.expense += Math.abs(t.amount);
+    monthMap.set(mk, entry);
+  }
+  const monthOverMonth = Array.from(monthMap.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([month, v]) => ({ month, income: v.income, expense: v.expense, net: v.income - v.expense }));
+
+  const merchantGroups = new Map<string, Txn[]>();
+  for (const t of debits) {
+    const merchant = merchantKey(t);
+    if (!merchant || merchant.length < 3) continue;
+    const arr = merchantGroups.get(merchant) ?? [];
+    arr.push(t);
+    merchantGroups.set(merchant, arr);
+  }
+  const subscriptions = Array.from(merchantGroups.entries())
+    .map(([merchant, list]) => {
+      const months = new Set(list.map((t) => monthKey(t.date)).filter(Boolean));
+      const total = list.reduce((s, t) => s + Math.abs(t.amount), 0);
+      const avg = total / list.length;
+      return {
+        merchant,
+        count: list.length,
+        monthCount: months.size,
+        avgAmount: avg,
+        totalAmount: total,
+      };
+    })
+    .filter((g) => g.count >= 2 && g.monthCount >= 2)
+    .sort((a, b) => b.totalAmount - a.totalAmount)
+    .slice(0, 10)
+    .map((g) => ({
+      merchant: g.merchant,
+      count: g.count,
+      avgAmount: g.avgAmount,
+      totalAmount: g.totalAmount,
+    }));
+
+  const debitAbs = debits.map((t) => Math.abs(t.amount));
+  const mean = debitAbs.length ? debitAbs.reduce((a, b) => a + b, 0) / debitAbs.length : 0;
+  const variance =
+    debitAbs.length > 1
+      ? debitAbs.reduce((s, v) => s + (v - mean) * (v - mean), 0) / debitAbs.length
+      : 0;
+  const stdDev = Math.sqrt(variance);
+  const unusualThreshold = Math.max(mean * 1.8, mean + 2 * stdDev);
+  const unusualSpends = debits
+    .filter((t) => Math.abs(t.amount) > unusualThreshold && Math.abs(t.amount) > 1000)
+    .sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount))
+    .slice(0, 10)
+    .map((t) => ({
+      id: t.id,
+      date: t.date,
+      description: t.description,
+      amount: Math.abs(t.amount),
+    }));
+
+  const incomeExpenseRatio = totalDebits > 0 ? totalCredits / totalDebits : null;
+
+  return {
+    transactionCount: txns.length,
+    totalDebits,
+    totalCredits,
+    netFlow: totalCredits - totalDebits,
+    incomeExpenseRatio,
+    avgDebit: debits.length ? totalDebits / debits.length : 0,
+    avgCredit: credits.length ? totalCredits / credits.length : 0,
+    categoryBreakdown,
+    monthOverMonth,
+    subscriptions,
+    counterparties: counterpartyTotals(txns),
+    unusualSpends,
+    topExpense: topExpenseTxn
+      ? { description: topExpenseTxn.description, amount: Math.abs(topExpenseTxn.amount) }
+      : undefined,
+    topCredit: topCreditTxn ? { description: topCreditTxn.description, amount: topCreditTxn.amount } : undefined,
+  };
+}
@@ -0,0 +1,169 @@
+import type {
+  AnalyzeOk,
+  CardSummary,
+  LedgerBalance,
+  StatementGap,
+  StatementHeader,
+  StatementSource,
+  Txn,
+} from "@/lib/types/analyze";
+
+export type UploadedStatement = {
+  fileName: string;
+  result: AnalyzeOk;
+};
+
+export type MergedLedger = {
+  txns: Txn[];
+  statements: StatementSource[]; // chronological
+  gaps: StatementGap[];
+  duplicatesRemoved: number;
+  card?: CardSummary; // from the latest card statement
+  openingBalance?: LedgerBalance; // of the earliest statement
+  closingBalance?: LedgerBalance; // of the latest statement
+  statement?: StatementHeader; // account details of the latest, period across all
+};
+
+// Transaction dates never cover a period edge to edge (weekends, quiet days),
+// so only holes longer than this are reported as gaps.
+const GAP_TOLERANCE_DAYS = 3;
+const DAY_MS = 86_400_000;
+
+function dayNumber(iso: string): number {
+  return Date.UTC(Number(iso.slice(0, 4)), Number(iso.slice(5, 7)) - 1, Number(iso.slice(8, 10))) / DAY_MS;
+}
+
+function addDays(iso: string, days: number): string {
+  return new Date((dayNumber(iso) + days) * DAY_MS).toISOString().slice(0, 10);
+}
+
+function dateRange(txns: Txn[]): { from?: string; to?: string } {
+  const dates = txns.map((t) => t.date).filter((d) => /^\d{4}-\d{2}-\d{2}$/.test(d)).sort();
+  return { from: dates[0], to: dates[dates.length - 1] };
+}
+
+function cents(value: number): number {
+  return Math.round(value * 100);
+}
+
+// Narrations of the same row differ between exports in punctuation, spacing
+// and where they are cut off, so only a normalised prefix is compared.
+function narrationKey(description: string): string {
+  return description
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "")
+    .slice(0, 24);
+}
+
+// Same date and amount, then the running balance settles it when both sides
+// have one; otherwise the narration has to agree.
+function sameTxn(a: Txn, b: Txn): boolean {
+  if (a.date !== b.date || cents(a.amount) !== cents(b.amount)) return false;
+  if (a.balance !== undefined && b.balance !== undefined) return cents(a.balance) === cents(b.balance);
+  return narrationKey(a.description) === narrationKey(b.description);
+}
+
+// Consecutive statements of one account overlap by a few days. Statements are
+// laid end to end by start date; rows of a later statement that fall inside
+// dates already covered are dropped when they match a row seen before. Each
+// earlier row absorbs at most one later row, so genuine repeats (two identical
+// purchases on one day) survive.
+export function mergeStatements(uploads: UploadedStatement[]): MergedLedger {
+  const ordered = uploads
+    .map((upload, index) => ({ ...upload, index, ...dateRange(upload.result.txns) }))
+    .sort((a, b) => {
+      if (a.from && b.from && a.from !== b.from) return a.from.localeCompare(b.from);
+      if (!a.from !== !b.from) return a.from ? -1 : 1;
+      return a.index - b.index;
+    });
+
+  const txns: Txn[] = [];
+  const ids = new Set<string>();
+  const statements: StatementSource[] = [];
+  const gaps: StatementGap[] = [];
+  let duplicatesRemoved = 0;
+  let coveredTo: string | undefined;
+  let coveredBy = "";
+  let card: CardSummary | undefined;
+
+  for (const s of ordered) {
+    const { from } = s;
+    const overlapEnd = coveredTo;
+    const pool =
+      overlapEnd && from && from <= overlapEnd ? txns.filter((t) => t.date >= from && t.date <= overlapEnd) : [];
+    const used = new Set<Txn>();
+    let dropped = 0;
+
+    for (const t of s.result.txns) {
+      if (pool.length > 0 && overlapEnd && t.date <= overlapEnd) {
+        const match = pool.find((p) => !used.has(p) && sameTxn(p, t));
+        if (match) {
+          used.add(match);
+          dropped++;
+          continue;
+        }
+      }
+      // Row IDs are only unique within one file.
+      const id = ids.has(t.id) ? `s${s.index + 1}-${t.id}` : t.id;
+      ids.add(id);
+      txns.push(id === t.id ? t : { ...t, id });
+    }
+
+    if (coveredTo && s.from) {
+      const days = dayNumber(s.from) - dayNumber(coveredTo) - 1;
+      if (days > GAP_TOLERANCE_DAYS) {
+        gaps.push({
+          from: addDays(coveredTo, 1),
+          to: addDays(s.from, -1),
+          days,
+          afterFile: coveredBy,
+          beforeFile: s.fileName,
+        });
+      }
+    }
+    if (s.to && (!coveredTo || s.to > coveredTo)) {
+      coveredTo = s.to;
+      coveredBy = s.fileName;
+    }
+
+    card = s.result.card ?? card;
+    duplicatesRemoved += dropped;
+    statements.push({
+      fileName: s.fileName,
+      fileType: s.result.meta.fileType,
+      txnCount: s.result.txns.length - dropped,
+      duplicatesRemoved: dropped,
+      from: s.from,
+      to: s.to,
+      note: s.result.meta.note,
+      reconciliation: s.result.meta.reconciliation,
+    });
+  }
+
+  // Stable sort: rows on the same day keep their statement order.
+  txns.sort((a, b) => a.date.localeCompare(b.date));
+  const first = ordered[0];
+  const last = ordered[ordered.length - 1];
+  const firstMeta = first?.result.meta;
+  const lastMeta = last?.result.meta;
+  const firstHeader = first?.result.statement;
+  const lastHeader = last?.result.statement;
+  return {
+    txns,
+    statements,
+    gaps,
+    duplicatesRemoved,
+    card,
+    openingBalance: firstMeta?.openingBalance,
+    closingBalance: lastMeta?.closingBalance ?? lastMeta?.ledgerBalance,
+    statement:
+      firstHeader || lastHeader
+        ? {
+            ...lastHeader,
+            periodFrom: firstHeader?.periodFrom ?? first.from,
+            periodTo: lastHeader?.periodTo ?? last.to,
+            openingBalance: firstHeader?.openingBalance,
+          }
+        : undefined,
+  };
+}
@@ -0,0 +1,153 @@
+import type { BalanceCheck, Reconciliation, Txn } from "@/lib/types/analyze";
+
+export type ReconcileOptions = {
+  openingBalance?: number;
+  closingBalance?: number;
+};
+
+export type ReconcileResult = {
+  txns: Txn[];
+  report: Reconciliation;
+};
+
+// A row whose printed balance confirms it is near certain; a row that needed
+// a fix is trusted a little less; a row that cannot be reconciled is suspect.
+const CONFIDENCE: Record<BalanceCheck, (c: number) => number> = {
+  ok: (c) => Math.max(c, 0.97),
+  flipped_sign: () => 0.93,
+  swapped_columns: () => 0.9,
+  mismatch: (c) => Math.min(c, 0.4),
+};
+
+function cents(value: number): number {
+  return Math.round(value * 100);
+}
+
+function withCheck(t: Txn, check: BalanceCheck, patch: Partial<Txn> = {}): Txn {
+  const next = { ...t, ...patch, balanceCheck: check };
+  next.confidence = CONFIDENCE[check](t.confidence);
+  if (patch.amount !== undefined) next.drCr = patch.amount >= 0 ? "CR" : "DR";
+  return next;
+}
+
+// The usual parser mistakes: the sign came out wrong (DR/CR or
+// Withdrawal/Deposit read the wrong way round), or the amount and balance
+// cells were swapped. Both can explain the same row (1000 -> 5 with 995 read
+// as either); the next printed balance decides, and the sign fix wins a tie.
+function tryFix(t: Txn, prev: number, balance: number, next: Txn | undefined): Txn | null {
+  const fixes: Txn[] = [];
+  if (cents(prev - t.amount) === cents(balance)) {
+    fixes.push(withCheck(t, "flipped_sign", { amount: -t.amount }));
+  }
+  const printedAmount = Math.abs(t.amount);
+  for (const sign of [-1, 1]) {
+    const amount = sign * Math.abs(balance);
+    if (cents(prev + amount) === cents(printedAmount)) {
+      fixes.push(withCheck(t, "swapped_columns", { amount, balance: printedAmount }));
+      break;
+    }
+  }
+  const continues = (fix: Txn) =>
+    next?.balance !== undefined && cents((fix.balance ?? balance) + next.amount) === cents(next.balance);
+  return fixes.find(continues) ?? fixes[0] ?? null;
+}
+
+// Rebuilds the running balance from the opening balance (or the first printed
+// balance) through every row in statement order. Rows whose printed balance
+// disagrees are fixed when a single correction explains them, otherwise
+// flagged; the chain then resyncs to the printed balance so one bad row does
+// not fail every row after it.
+export function reconcile(txns: Txn[], opts: ReconcileOptions = {}): ReconcileResult {
+  // Some exports list the newest row first; the chain is rebuilt oldest first.
+  const newestFirst = txns.length > 1 && txns[0].date > txns[txns.length - 1].date;
+  const rows = newestFirst ? [...txns].reverse() : txns;
+  const out: Txn[] = [];
+  let prev = opts.openingBalance;
+  let openingBalance = prev;
+  let checkedRows = 0;
+
+  rows.forEach((t, index) => {
+    if (t.balance === undefined) {
+      if (prev !== undefined) prev += t.amount;
+      out.push(t);
+      return;
+    }
+    // Without a printed opening balance the first balance only starts the chain.
+    if (prev === undefined) {
+      openingBalance = t.balance - t.amount;
+      prev = t.balance;
+      out.push(t);
+      return;
+    }
+    checkedRows++;
+    if (cents(prev + t.amount) === cents(t.balance)) {
+      out.push(withCheck(t, "ok"));
+      prev = t.balance;
+      return;
+    }
+    const fixed = tryFix(t, prev, t.balance, rows[index + 1]);
+    out.push(fixed ?? withCheck(t, "mismatch"));
+    prev = fixed?.balance ?? t.balance;
+  });
+
+  const closingBalance = opts.closingBalance ?? [...out].reverse().find((t) => t.balance !== undefined)?.balance;
+  const closingDifference =
+    closingBalance !== undefined && prev !== undefined ? (cents(closingBalance) - cents(prev)) / 100 : undefined;
+
+  return {
+    txns: newestFirst ? out.reverse() : out,
+    report: summarizeChecks(out, {
+      checkedRows,
+      openingBalance,
+      closingBalance,
+      closingDifference,
+      skipped: checkedRows === 0 && closingDifference === undefined,
+    }),
+  };
+}
+
+type CheckTotals = {
+  checkedRows: number;
+  openingBalance?: number;
+  closingBalance?: number;
+  closingDifference?: number;
+  skipped: boolean;
+};
+
+function summarizeChecks(txns: Txn[], totals: CheckTotals): Reconciliation {
+  const mismatchIds = txns.filter((t) => t.balanceCheck === "mismatch").map((t) => t.id);
+  const fixedIds = txns
+    .filter((t) => t.balanceCheck === "flipped_sign" || t.balanceCheck === "swapped_columns")
+    .map((t) => t.id);
+  const closingOk = totals.closingDifference === undefined || totals.closingDifference === 0;
+  const confidence = txns.length > 0 ? txns.reduce((s, t) => s + t.confidence, 0) / txns.length : 0;
+
+  return {
+    status: totals.skipped ? "skipped" : mismatchIds.length === 0 && closingOk ? "pass" : "fail",
+    checkedRows: totals.checkedRows,
+    mismatches: mismatchIds.length,
+    mismatchIds,
+    fixedIds,
+    openingBalance: totals.openingBalance,
+    closingBalance: totals.closingBalance,
+    closingDifference: totals.closingDifference,
+    confidence: Number(confidence.toFixed(3)),
+  };
+}
+
+// Merged statements keep their per-file checks on each row; the combined
+// report re-reads those flags (IDs may have changed in the merge) and fails
+// if any statement failed. `reports` are in chronological order.
+export function combineReconciliations(reports: Reconciliation[], txns: Txn[]): Reconciliation | undefined {
+  if (reports.length === 0) return undefined;
+  const last = reports[reports.length - 1];
+  const combined = summarizeChecks(txns, {
+    checkedRows: reports.reduce((s, r) => s + r.checkedRows, 0),
+    openingBalance: reports[0].openingBalance,
+    closingBalance: last.closingBalance,
+    closingDifference: last.closingDifference,
+    skipped: reports.every((r) => r.status === "skipped"),
+  });
+  if (reports.some((r) => r.status === "fail")) combined.status = "fail";
+  return combined;
+}
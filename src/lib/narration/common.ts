@@ -0,0 +1,19 @@
+// Pieces shared by the narration decoders.
+
+export const IFSC = /^[A-Z]{4}0[A-Z0-9]{6}$/i;
+// 12-digit retrieval reference number, the reference UPI and IMPS print.
+export const RRN = /^\d{12}$/;
+export const BANK_NAME = /\bBANK(?:\s+(?:LTD|LIMITED))?\.?$/i;
+
+// IFSC bank prefixes printed on their own in place of the payee's IFSC.
+export const BANK_CODES = new Set([
+  "AIRP", "AUBL", "BARB", "BKID", "CBIN", "CITI", "CIUB", "CNRB", "DBSS", "DLXB", "ESFB", "FDRL", "FINO", "HDFC",
+  "HSBC", "ICIC", "IDFB", "IDIB", "INDB", "IOBA", "JAKA", "JIOP", "KARB", "KKBK", "KVBL", "MAHB", "NSPB", "PSIB",
+  "PUNB", "PYTM", "RATN", "SBIN", "SCBL", "SIBL", "TMBL", "UBIN", "UCBA", "UTIB", "YESB",
+]);
+
+// One narration field with runs of whitespace collapsed and the stray
+// separators banks pad fields with ("Payment--") removed.
+export function tidy(s: string): string {
+  return s.replace(/\s+/g, " ").replace(/^[\s-]+|[\s-]+$/g, "");
+}
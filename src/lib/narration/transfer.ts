@@ -0,0 +1,67 @@
+import { maskAccountNumber } from "@/lib/parsers/header";
+import type { Counterparty, PaymentRail } from "@/lib/types/analyze";
+import { BANK_CODES, BANK_NAME, IFSC, RRN, tidy } from "./common";
+
+// Decodes bank-transfer narrations into the counterparty. As with UPI, the
+// fields are recognized by shape since every bank orders them differently:
+//   HDFC   NEFT CR-HDFC0000123-ACME CORP PVT LTD-NETBANK, MUM-N123241234567890-SALARY APR
+//   HDFC   IMPS-412345678901-RAMESH KUMAR-HDFC-XXXXXXXX1234-RENT
+//   SBI    BY TRANSFER-NEFT*HDFC0000001*N123241234567890*ACME CORP*
+//   ICICI  NEFT-HDFCN52024041212345-ACME CORP-SALARY-50100012345678-HDFC0000001
+//   ICICI  MMT/IMPS/412345678901/RENT/RAMESH KUM/HDFC Bank
+//   Axis   RTGS/UTIBR52024041200012345/ACME CORP/HDFC BANK
+//   NACH   ACH D- TP ACH HDFCLIFE-1234567890, NACH/DR/BAJAJ FINANCE/UMRN HDFC7000000012345678
+// Account numbers are kept masked to their last four digits.
+
+const RAIL_START = /\b(NEFT|IMPS|RTGS|NACH|ACH|ECS)\b/i;
+const FLAG = /^(?:CR|DR|C|D|P2A|P2P|INW|OUTW|INWARD|OUTWARD|TP|MMT|RET|REV|NA)$/i;
+// Channel the transfer was sent through, e.g. HDFC's "NETBANK, MUM".
+const CHANNEL = /^(?:NET ?BANK(?:ING)?|INB|IB|MB|MOB|BRANCH)\b/i;
+// UTRs: "N123241234567890", "HDFCN52024041212345", "CMS1234567890", "UTIBR5202...".
+const UTR = /^[A-Z]{1,6}\d{8,}[A-Z0-9]*$/i;
+// Unique mandate reference numbers are a bank prefix and 16 digits.
+const UMRN = /^(?:UMRN\s*:?\s*)?([A-Z]{4}\d{16})$/i;
+const MASKED_ACCOUNT = /^(?:A\/?C\s*)?[X*]+\d{3,6}$/i;
+const ACCOUNT = /^(?:A\/?C\s*)?\d{9,18}$/i;
+// Leading words NACH debits prefix the biller with: "TP ACH HDFCLIFE".
+const NAME_PREFIX = /^(?:(?:TP|ACH|NACH|ECS)\s+)+/i;
+
+export function decodeTransfer(narration: string): Counterparty | undefined {
+  const m = RAIL_START.exec(narration);
+  if (!m) return undefined;
+  const word = m[1].toUpperCase();
+  const rail = (word === "ACH" ? "NACH" : word) as PaymentRail;
+  const body = narration.slice(m.index + m[0].length);
+  const sep = body.match(/[-/*:]/)?.[0];
+  const parts = (sep ? body.split(sep) : [body]).map(tidy).filter(Boolean);
+
+  const party: Counterparty = { rail };
+  const texts: string[] = [];
+  for (const part of parts) {
+    const umrn = part.match(UMRN);
+    if (FLAG.test(part) || CHANNEL.test(part)) continue;
+    if (!party.bankCode && IFSC.test(part)) {
+      party.bankCode = part.toUpperCase();
+    } else if (!party.mandate && umrn && (rail === "NACH" || rail === "ECS")) {
+      party.mandate = umrn[1].toUpperCase();
+    } else if (!party.reference && rail === "IMPS" && RRN.test(part)) {
+      party.reference = part;
+    } else if (!party.reference && rail !== "IMPS" && UTR.test(part) && /[A-Z]/i.test(part)) {
+      party.reference = part.toUpperCase();
+    } else if (!party.account && (MASKED_ACCOUNT.test(part) || ACCOUNT.test(part))) {
+      party.account = maskAccountNumber(part.replace(/^A\/?C\s*/i, ""));
+    } else if (!party.bank && BANK_NAME.test(part)) {
+      party.bank = part;
+    } else if (!party.bankCode && BANK_CODES.has(part.toUpperCase())) {
+      party.bankCode = part.toUpperCase();
+    } else if (!/^[\d\s]+$/.test(part)) {
+      const text = part.replace(NAME_PREFIX, "").trim();
+      if (text) texts.push(text);
+    }
+  }
+
+  // ICICI's mobile transfers print the remark before the payee.
+  const nameAt = /\bMMT\s*\/\s*IMPS\b/i.test(narration) && texts.length > 1 ? 1 : 0;
+  if (texts[nameAt]) party.name = texts[nameAt];
+  return Object.keys(party).length > 1 ? party : undefined;
+}
@@ -0,0 +1,118 @@
+import { categoryPath } from "@/lib/categorize/taxonomy";
+import type { Counterparty, UpiDetails } from "@/lib/types/analyze";
+import { BANK_CODES, BANK_NAME, IFSC, RRN, tidy } from "./common";
+
+// Decodes the UPI part of a narration. Banks print the same fields in
+// different orders and with different separators:
+//   SBI    TO TRANSFER-UPI/DR/412345678901/PAYEE NAME/YESB/payee@ybl/Payment--
+//   HDFC   UPI-PAYEE NAME-payee@okicici-ICIC0001234-412345678901-Paid via app
+//   ICICI  UPI/412345678901/Payment from Ph/payee@ybl/YES BANK LIMITED/YBL5f2c...
+//   Axis   UPI/P2M/412345678901/PAYEE NAME/Remark/YES BANK
+//   Kotak  UPI/PAYEE NAME/412345678901/Remark
+// so each field is recognized by its shape rather than its position: the
+// 12-digit RRN, the VPA, bank codes, and free text, where the first text that
+// is not a stock remark is the payee.
+
+const UPI_START = /\bUPI(?:\s*(?:IN|OUT|AR|RET|REV))?\s*([/:-])/i;
+const VPA = /^[\w.-]+@[a-z][a-z0-9]*$/i;
+const FLAG = /^(?:DR|CR|P2A|P2M|P2P|IN|OUT|NA|NULL)$/i;
+// Provider transaction IDs such as "YBL5f2c0e9a1b7d4c3e8f": long, no spaces, letters and digits.
+const TXN_ID = /^(?=.*\d)(?=.*[a-z])[a-z0-9]{16,}$/i;
+const STOCK_REMARK =
+  /^(?:paid via|payment (?:from|to|for|via|on)|pay to|sent (?:via|using|from)|collect request|request from|(?:upi )?payment$|upi$|no remarks?$|mandate|autopay)/i;
+
+// The app behind a VPA handle, for the common ones.
+const PSP_BY_HANDLE: Record<string, string> = {
+  okicici: "Google Pay",
+  okhdfcbank: "Google Pay",
+  okaxis: "Google Pay",
+  oksbi: "Google Pay",
+  ybl: "PhonePe",
+  ibl: "PhonePe",
+  axl: "PhonePe",
+  paytm: "Paytm",
+  ptyes: "Paytm",
+  ptaxis: "Paytm",
+  pthdfc: "Paytm",
+  ptsbi: "Paytm",
+  apl: "Amazon Pay",
+  yapl: "Amazon Pay",
+  rapl: "Amazon Pay",
+  waaxis: "WhatsApp",
+  wahdfcbank: "WhatsApp",
+  waicici: "WhatsApp",
+  wasbi: "WhatsApp",
+  upi: "BHIM",
+  ikwik: "MobiKwik",
+  freecharge: "Freecharge",
+  jupiteraxis: "Jupiter",
+  fifederal: "Fi",
+  slice: "slice",
+  icici: "ICICI Bank",
+  hdfcbank: "HDFC Bank",
+  sbi: "SBI",
+  axisbank: "Axis Bank",
+  kotak: "Kotak",
+  yesbank: "Yes Bank",
+};
+
+export function decodeUpi(narration: string): UpiDetails | undefined {
+  const m = UPI_START.exec(narration);
+  if (!m) return undefined;
+  const parts = narration
+    .slice(m.index + m[0].length)
+    .split(m[1])
+    .map(tidy)
+    .filter(Boolean);
+
+  const details: UpiDetails = {};
+  const texts: string[] = [];
+  for (const part of parts) {
+    if (FLAG.test(part)) continue;
+    if (!details.ref && RRN.test(part)) {
+      details.ref = part;
+    } else if (!details.vpa && VPA.test(part)) {
+      details.vpa = part.toLowerCase();
+      details.handle = details.vpa.split("@")[1];
+      details.psp = PSP_BY_HANDLE[details.handle];
+    } else if (IFSC.test(part) || BANK_CODES.has(part.toUpperCase()) || /^\d+$/.test(part) || TXN_ID.test(part)) {
+      continue;
+    } else if (texts.length > 0 && BANK_NAME.test(part)) {
+      // The payee's bank, printed after the name.
+      continue;
+    } else {
+      texts.push(part);
+    }
+  }
+
+  details.name = texts.find((t) => !STOCK_REMARK.test(t));
+  const remark = texts.filter((t) => t !== details.name).join(" ");
+  if (remark) details.remark = remark;
+  if (!details.name) delete details.name;
+  return Object.keys(details).length > 0 ? details : undefined;
+}
+
+// The payee as a counterparty, so UPI and bank transfers group together.
+export function upiCounterparty(upi: UpiDetails): Counterparty | undefined {
+  if (!upi.name && !upi.ref) return undefined;
+  return { name: upi.name, reference: upi.ref, rail: "UPI" };
+}
+
+const REMARK_CATEGORIES: Array<[RegExp, string]> = [
+  [/\brent\b/i, categoryPath("rent")],
+  [/\b(?:electricity|eb bill|power bill)\b/i, categoryPath("utilities", "electricity")],
+  [/\b(?:recharge|mobile bill|postpaid|prepaid)\b/i, categoryPath("utilities", "mobile")],
+  [/\b(?:broadband|wifi|internet)\b/i, categoryPath("utilities", "broadband")],
+  [/\b(?:grocer(?:y|ies)|kirana|vegetables?|milk)\b/i, categoryPath("food", "groceries")],
+  [/\b(?:lunch|dinner|breakfast|restaurant|cafe|food)\b/i, categoryPath("food", "dining")],
+  [/\b(?:petrol|diesel|fuel)\b/i, categoryPath("travel", "fuel")],
+  [/\b(?:auto|cab|taxi)\b/i, categoryPath("travel", "cab")],
+  [/\b(?:medicines?|pharmacy|chemist|doctor|clinic)\b/i, categoryPath("health", "pharmacy")],
+  [/\b(?:school|college|tuition|fees)\b/i, categoryPath("education")],
+];
+
+// A category from what the payer wrote in the remark, when it says.
+export function upiCategory(upi: UpiDetails): string | undefined {
+  if (!upi.remark) return undefined;
+  return REMARK_CATEGORIES.find(([re]) => re.test(upi.remark as string))?.[1];
+}
@@ -1,10 +1,12 @@
 import { googleVisionOcrFromImageBase64 } from "@/lib/ocr/google-vision-rest";
+import type { OcrProvider } from "@/lib/ocr/types";
 
-export async function runGoogleOCR(imageBuffer: Buffer): Promise<string> {
-  const { text } = await googleVisionOcrFromImageBase64({
-    base64: imageBuffer.toString("base64"),
-    feature: "DOCUMENT_TEXT_DETECTION",
-  });
-
-  return text;
-}
+export const googleVisionProvider: OcrProvider = {
+  id: "google-vision",
+  recognize(image) {
+    return googleVisionOcrFromImageBase64({
+      base64: image.toString("base64"),
+      feature: "DOCUMENT_TEXT_DETECTION",
+    });
+  },
+};
@@ -1,19 +1,60 @@
+import type { OcrPoint, OcrResult, OcrWord } from "@/lib/ocr/types";
+
 export type GoogleVisionFeature =
   | "DOCUMENT_TEXT_DETECTION"
   | "TEXT_DETECTION";
 
+type VisionVertex = { x?: number; y?: number };
+
+type VisionWord = {
+  boundingBox?: { vertices?: VisionVertex[] };
+  symbols?: Array<{ text?: string; property?: { detectedBreak?: { type?: string } } }>;
+  confidence?: number;
+};
+
 type VisionAnnotateResponse = {
   responses?: Array<{
-    fullTextAnnotation?: { text?: string };
+    fullTextAnnotation?: {
+      text?: string;
+      pages?: Array<{
+        confidence?: number;
+        blocks?: Array<{ paragraphs?: Array<{ words?: VisionWord[] }> }>;
+      }>;
+    };
     textAnnotations?: Array<{ description?: string }>;
     error?: { message?: string };
   }>;
 };
 
+function toBox(vertices: VisionVertex[] | undefined): OcrWord["box"] | null {
+  if (!vertices || vertices.length !== 4) return null;
+  const pts = vertices.map((v): OcrPoint => ({ x: v.x ?? 0, y: v.y ?? 0 }));
+  return [pts[0], pts[1], pts[2], pts[3]];
+}
+
+function wordsFromAnnotation(
+  annotation: NonNullable<NonNullable<VisionAnnotateResponse["responses"]>[number]["fullTextAnnotation"]>
+): OcrWord[] {
+  const words: OcrWord[] = [];
+  for (const page of annotation.pages ?? []) {
+    for (const block of page.blocks ?? []) {
+      for (const paragraph of block.paragraphs ?? []) {
+        for (const word of paragraph.words ?? []) {
+          const text = (word.symbols ?? []).map((s) => s.text ?? "").join("");
+          const box = toBox(word.boundingBox?.vertices);
+          if (!text || !box) continue;
+          words.push({ text, box, confidence: word.confidence });
+        }
+      }
+    }
+  }
+  return words;
+}
+
 export async function googleVisionOcrFromImageBase64(params: {
   base64: string;              // image bytes as base64 (no data: prefix)
   feature?: GoogleVisionFeature;
-}): Promise<{ text: string }> {
+}): Promise<OcrResult> {
   const apiKey = process.env.GOOGLE_VISION_API_KEY;
   if (!apiKey) throw new Error("Missing GOOGLE_VISION_API_KEY");
 
@@ -53,5 +94,14 @@ export async function googleVisionOcrFromImageBase64(params: {
     first?.textAnnotations?.[0]?.description ??
     "";
 
-  return { text };
+  // Word boxes and confidences are only present for DOCUMENT_TEXT_DETECTION.
+  const words = first?.fullTextAnnotation ? wordsFromAnnotation(first.fullTextAnnotation) : [];
+  const pageConfidences = (first?.fullTextAnnotation?.pages ?? [])
+    .map((p) => p.confidence)
+    .filter((c): c is number => typeof c === "number");
+  const confidence = pageConfidences.length
+    ? pageConfidences.reduce((a, b) => a + b, 0) / pageConfidences.length
+    : undefined;
+
+  return { text, words, confidence };
 }
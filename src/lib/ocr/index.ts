@@ -0,0 +1,44 @@
+import { googleVisionProvider } from "@/lib/ocr/google-ocr";
+import { localTesseractProvider } from "@/lib/ocr/local-ocr";
+import { recordingProvider, replayProvider } from "@/lib/ocr/replay-ocr";
+import type { OcrProvider } from "@/lib/ocr/types";
+
+export type OcrProviderId = "google" | "local" | "replay" | "none";
+
+// OCR_PROVIDER selects the engine:
+//   google  Google Vision REST (needs GOOGLE_VISION_API_KEY)
+//   local   tesseract.js in-process, no network; statements never leave the server
+//   replay  recorded responses from OCR_REPLAY_DIR
+//   none    OCR disabled
+// Unset means google when an API key is configured, otherwise local.
+// OCR_RECORD_DIR additionally records every live response for later replay.
+export function getOcrProvider(): OcrProvider | null {
+  const configured = (process.env.OCR_PROVIDER ?? "").trim().toLowerCase();
+  const id: OcrProviderId =
+    configured === "google" || configured === "local" || configured === "replay" || configured === "none"
+      ? configured
+      : process.env.GOOGLE_VISION_API_KEY
+        ? "google"
+        : "local";
+
+  if (id === "none") return null;
+
+  if (id === "replay") {
+    const dir = process.env.OCR_REPLAY_DIR;
+    if (!dir) throw new Error("OCR_PROVIDER=replay requires OCR_REPLAY_DIR");
+    return replayProvider(dir);
+  }
+
+  const live = id === "google" ? googleVisionProvider : localTesseractProvider;
+  const recordDir = process.env.OCR_RECORD_DIR;
+  return recordDir ? recordingProvider(live, recordDir) : live;
+}
+
+const DEFAULT_OCR_PAGE_BUDGET = 30;
+
+// OCR_PAGE_BUDGET caps how many pages of one PDF are sent to OCR; scanned
+// pages past it are reported as skipped.
+export function getOcrPageBudget(): number {
+  const n = Number.parseInt(process.env.OCR_PAGE_BUDGET ?? "", 10);
+  return Number.isFinite(n) && n >= 0 ? n : DEFAULT_OCR_PAGE_BUDGET;
+}
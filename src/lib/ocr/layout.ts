@@ -0,0 +1,90 @@
+import type { OcrResult, OcrWord } from "@/lib/ocr/types";
+
+type PlacedWord = { text: string; x: number; y: number; height: number };
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+// Text angle of a word from its top edge. Phone photos of passbooks are rarely
+// level, and a few degrees of tilt is enough to interleave adjacent rows.
+function wordAngle(w: OcrWord): number {
+  const [tl, tr] = w.box;
+  return Math.atan2(tr.y - tl.y, tr.x - tl.x);
+}
+
+function wordHeight(w: OcrWord): number {
+  const [tl, , , bl] = w.box;
+  return Math.hypot(bl.x - tl.x, bl.y - tl.y);
+}
+
+export function estimateSkew(words: OcrWord[]): number {
+  // Single characters have unreliable angles; use words that are wider than tall.
+  const angles = words
+    .filter((w) => w.text.length >= 3)
+    .map(wordAngle);
+  return median(angles.length ? angles : words.map(wordAngle));
+}
+
+// Rebuild reading-order lines from word boxes: undo the page skew, cluster
+// words whose centres share a baseline band, then order each line left to right.
+export function reconstructLines(words: OcrWord[]): { text: string; skewDegrees: number } {
+  if (words.length === 0) return { text: "", skewDegrees: 0 };
+
+  const skew = estimateSkew(words);
+  const cos = Math.cos(-skew);
+  const sin = Math.sin(-skew);
+
+  const placed: PlacedWord[] = words.map((w) => {
+    const cx = w.box.reduce((s, p) => s + p.x, 0) / 4;
+    const cy = w.box.reduce((s, p) => s + p.y, 0) / 4;
+    return {
+      text: w.text,
+      x: cx * cos - cy * sin,
+      y: cx * sin + cy * cos,
+      height: wordHeight(w),
+    };
+  });
+
+  const tolerance = Math.max(2, median(placed.map((p) => p.height)) * 0.55);
+  placed.sort((a, b) => a.y - b.y);
+
+  const lines: PlacedWord[][] = [];
+  for (const word of placed) {
+    const last = lines[lines.length - 1];
+    const lastY = last ? last.reduce((s, w) => s + w.y, 0) / last.length : 0;
+    if (!last || Math.abs(word.y - lastY) > tolerance) lines.push([word]);
+    else last.push(word);
+  }
+
+  const text = lines
+    .map((line) =>
+      line
+        .sort((a, b) => a.x - b.x)
+        .map((w) => w.text)
+        .join(" ")
+    )
+    .join("\n");
+
+  return { text, skewDegrees: (skew * 180) / Math.PI };
+}
+
+// Text for the parser pipeline. Falls back to the provider's own text when it
+// returned no word geometry.
+export function ocrResultToText(result: OcrResult): string {
+  if (result.words.length === 0) return result.text.trim();
+  return reconstructLines(result.words).text;
+}
+
+// Character-weighted mean of word confidences, or the page-level figure when
+// the provider does not score words.
+export function ocrConfidence(result: OcrResult): number | undefined {
+  const scored = result.words.filter((w) => typeof w.confidence === "number");
+  if (scored.length === 0) return result.confidence;
+  const chars = scored.reduce((s, w) => s + w.text.length, 0);
+  if (chars === 0) return result.confidence;
+  return scored.reduce((s, w) => s + w.confidence! * w.text.length, 0) / chars;
+}
@@ -0,0 +1,60 @@
+import path from "node:path";
+import { createWorker, type Worker } from "tesseract.js";
+import type { OcrProvider, OcrWord } from "@/lib/ocr/types";
+
+// Trained data ships in the @tesseract.js-data/eng package so the engine never
+// reaches for tesseract's CDN. OCR_LOCAL_LANG_PATH can point at another copy.
+const langPath =
+  process.env.OCR_LOCAL_LANG_PATH ??
+  path.join(process.cwd(), "node_modules", "@tesseract.js-data", "eng", "4.0.0");
+
+let workerPromise: Promise<Worker> | null = null;
+
+function getWorker(): Promise<Worker> {
+  if (!workerPromise) {
+    workerPromise = createWorker("eng", undefined, {
+      langPath,
+      gzip: true,
+      // Keep traineddata in memory; the default cache writes into the cwd.
+      cacheMethod: "none",
+    }).catch((err: unknown) => {
+      workerPromise = null;
+      throw err;
+    });
+  }
+  return workerPromise;
+}
+
+export const localTesseractProvider: OcrProvider = {
+  id: "local-tesseract",
+  async recognize(image) {
+    const worker = await getWorker();
+    // rotateAuto deskews before recognition, so boxes are in the levelled image.
+    const { data } = await worker.recognize(image, { rotateAuto: true }, { text: true, blocks: true });
+
+    const words: OcrWord[] = [];
+    for (const block of data.blocks ?? []) {
+      for (const paragraph of block.paragraphs) {
+        for (const line of paragraph.lines) {
+          for (const word of line.words) {
+            const text = word.text.trim();
+            if (!text) continue;
+            const { x0, y0, x1, y1 } = word.bbox;
+            words.push({
+              text,
+              box: [
+                { x: x0, y: y0 },
+                { x: x1, y: y0 },
+                { x: x1, y: y1 },
+                { x: x0, y: y1 },
+              ],
+              confidence: word.confidence / 100,
+            });
+          }
+        }
+      }
+    }
+
+    return { text: data.text, words, confidence: data.confidence / 100 };
+  },
+};
@@ -0,0 +1,41 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { OcrProvider, OcrResult } from "@/lib/ocr/types";
+
+// Recordings are stored as <sha256 of image bytes>.json holding an OcrResult.
+export function recordingKey(image: Buffer): string {
+  return createHash("sha256").update(image).digest("hex");
+}
+
+// Serves previously recorded OCR responses from disk. Meant for tests and
+// demos: the same image always yields the same words, with no engine involved.
+export function replayProvider(dir: string): OcrProvider {
+  return {
+    id: "replay",
+    async recognize(image) {
+      const file = path.join(dir, `${recordingKey(image)}.json`);
+      let raw: string;
+      try {
+        raw = await readFile(file, "utf8");
+      } catch {
+        throw new Error(`No recorded OCR response for this image (expected ${file}).`);
+      }
+      const result = JSON.parse(raw) as OcrResult;
+      return { text: result.text ?? "", words: result.words ?? [], confidence: result.confidence };
+    },
+  };
+}
+
+// Wraps a live provider and writes each response where replayProvider finds it.
+export function recordingProvider(inner: OcrProvider, dir: string): OcrProvider {
+  return {
+    id: inner.id,
+    async recognize(image) {
+      const result = await inner.recognize(image);
+      await mkdir(dir, { recursive: true });
+      await writeFile(path.join(dir, `${recordingKey(image)}.json`), JSON.stringify(result, null, 2));
+      return result;
+    },
+  };
+}
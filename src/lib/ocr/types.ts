@@ -0,0 +1,21 @@
+export type OcrPoint = { x: number; y: number };
+
+export type OcrWord = {
+  text: string;
+  // Corners in reading order: top-left, top-right, bottom-right, bottom-left.
+  // For rotated scans these follow the text, not the image axes.
+  box: [OcrPoint, OcrPoint, OcrPoint, OcrPoint];
+  confidence?: number; // 0..1
+};
+
+export type OcrResult = {
+  text: string;
+  words: OcrWord[];
+  confidence?: number; // 0..1, page level
+};
+
+// An OCR engine the analyze route can be pointed at (see getOcrProvider).
+export type OcrProvider = {
+  id: string;
+  recognize: (image: Buffer) => Promise<OcrResult>;
+};
@@ -0,0 +1,141 @@
+import {
+  amountTokens,
+  balanceValue,
+  inferCategory,
+  signFromBalance,
+  toIsoDate,
+  type AmountToken,
+  type DateContext,
+} from "./common";
+import { extractStatementHeader } from "./header";
+import { tableToTxns } from "./layout";
+import type { ParserTxn, StatementParser } from "./types";
+
+const AXIS_DATE = "\\d{2}[-/]\\d{2}[-/]\\d{2,4}";
+
+// Tran Date | CHQNO | PARTICULARS | DR | CR | BAL | SOL
+// CHQNO is optional; SOL (branch code) is a short integer after the balance.
+const rowRe = new RegExp(`^(${AXIS_DATE})\\s+(?:(\\d{6,})\\s+)?(.*)$`);
+
+function isColumnHeader(line: string): boolean {
+  const l = line.toLowerCase();
+  return (
+    (l.includes("tran date") || l.includes("transaction date")) &&
+    l.includes("particulars") &&
+    (/\bbal\b/.test(l) || l.includes("balance"))
+  );
+}
+
+function isPageNoise(line: string): boolean {
+  return /^(page \d+|legends\s*:|registered office|unless the constituent notifies|transaction total|closing balance)/i.test(
+    line
+  );
+}
+
+type AxisRow = {
+  date: string;
+  particulars: string;
+  amounts: AmountToken[];
+};
+
+function parseAxisRows(text: string, dates?: DateContext): ParserTxn[] {
+  const lines = text
+    .split(/\r?\n/)
+    .map((l) => l.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+
+  const rows: AxisRow[] = [];
+  let inTable = false;
+  let current: AxisRow | null = null;
+  let prevBalance: number | null = null;
+
+  for (const line of lines) {
+    if (isColumnHeader(line)) {
+      inTable = true;
+      continue;
+    }
+    if (!inTable) continue;
+    if (isPageNoise(line)) {
+      if (current) rows.push(current);
+      current = null;
+      continue;
+    }
+
+    // "OPENING BALANCE 10,000.00" is printed as the first table row, undated.
+    const opening = line.match(/^opening balance\s+(.*)$/i);
+    const openingAmount = opening ? amountTokens(opening[1])[0] : undefined;
+    if (openingAmount?.index === 0) {
+      prevBalance = balanceValue(openingAmount);
+      continue;
+    }
+
+    const m = line.match(rowRe);
+    if (m) {
+      if (current) rows.push(current);
+      const rest = m[3];
+      const amounts = amountTokens(rest);
+      const tailStart = amounts.length ? amounts[Math.max(0, amounts.length - 3)].index : rest.length;
+      current = {
+        date: toIsoDate(m[1], dates),
+        particulars: rest.slice(0, tailStart).trim(),
+        amounts,
+      };
+      continue;
+    }
+
+    if (current) current.particulars = `${current.particulars} ${line}`.trim();
+  }
+  if (current) rows.push(current);
+
+  const txns: ParserTxn[] = [];
+  for (const r of rows) {
+    const amounts = r.amounts.slice(-3);
+    if (amounts.length < 2 || !r.particulars) continue;
+    const balance = balanceValue(amounts[amounts.length - 1]);
+    const values = amounts.slice(0, -1).map(balanceValue);
+
+    let amount: number;
+    let confidence = 0.9;
+    if (values.length === 2) {
+      amount = values[1] - values[0];
+    } else {
+      ({ amount, confidence } = signFromBalance(Math.abs(values[0]), balance, prevBalance, r.particulars));
+    }
+    prevBalance = balance;
+
+    txns.push({
+      date: r.date,
+      description: r.particulars,
+      amount,
+      drCr: amount >= 0 ? "CR" : "DR",
+      currency: "INR",
+      category: inferCategory(r.particulars),
+      confidence,
+      sourceParser: "axis-v1",
+      balance,
+    });
+  }
+
+  return txns;
+}
+
+export const axisStatementParser: StatementParser = {
+  id: "axis-v1",
+  canParse(text) {
+    const l = text.toLowerCase();
+    const hasColumns = l.includes("tran date") && l.includes("particulars") && (l.includes("chqno") || l.includes("chq no"));
+    if ((l.includes("axis bank") || l.includes("utib0")) && hasColumns) return 0.97;
+    if (hasColumns && /\bsol\b|init\.\s*br/.test(l)) return 0.8;
+    if (l.includes("axis bank")) return 0.3;
+    return 0.03;
+  },
+  parse(text, dates) {
+    return parseAxisRows(text, dates);
+  },
+  parseTable(table, dates) {
+    return tableToTxns(table, "axis-v1", 0.95, dates);
+  },
+  header(text) {
+    return extractStatementHeader(text, "Axis Bank");
+  },
+};
@@ -0,0 +1,180 @@
+import type { CardSummary } from "@/lib/types/analyze";
+import {
+  amountTokens,
+  inferCategory,
+  MONTH_WORD,
+  parseAmountToken,
+  parseDate,
+  toIsoDate,
+  type DateContext,
+} from "./common";
+import type { ParserTxn } from "./types";
+
+// Paying the card bill moves money between the user's own accounts; it is not
+// income and insights leave it out of credits.
+export const CARD_PAYMENT_CATEGORY = "card payment";
+
+// Card statements often print "12 Mar" without the year; the period fills it in.
+const CARD_DATE = `\\d{2}[/-]\\d{2}[/-]\\d{2,4}|\\d{1,2}\\s+[A-Za-z]{3}\\s+\\d{2,4}|\\d{1,2}\\s+${MONTH_WORD}\\b`;
+const rowRe = new RegExp(`^(${CARD_DATE})(?:\\s+\\d{1,2}:\\d{2}(?::\\d{2})?)?\\s+(.*)$`);
+
+export type CardLineOptions = {
+  sourceParser: string;
+  // ICICI prints a serial number after the date and reward points before the amount.
+  hasSerialNo?: boolean;
+  hasRewardPoints?: boolean;
+};
+
+function cardCategory(description: string, isCredit: boolean): string {
+  if (isCredit) {
+    if (/(payment|thank you|autopay|auto debit|netbanking|bbps|neft|imps|upi)/i.test(description)) {
+      return CARD_PAYMENT_CATEGORY;
+    }
+    return "refund";
+  }
+  if (/(finance charge|late payment|interest|annual fee|gst|igst|service tax|overlimit)/i.test(description)) {
+    return "fees";
+  }
+  return inferCategory(description);
+}
+
+// One transaction line: date [time] [serial] description [points] [intl amount] amount [Cr].
+// Charges are negative, payments and refunds ("Cr") positive.
+export function parseCardLine(line: string, opts: CardLineOptions, dates?: DateContext): ParserTxn | null {
+  const m = line.match(rowRe);
+  if (!m) return null;
+  const rest = m[2];
+  const amounts = amountTokens(rest);
+  const tail = amounts[amounts.length - 1];
+  if (!tail || tail.index + tail.raw.length !== rest.length) return null;
+  const value = tail.value;
+
+  let description = rest.slice(0, tail.index).trim();
+  // Foreign currency spends print the original amount before the INR amount.
+  const foreign = amounts[amounts.length - 2];
+  if (foreign && foreign.index + foreign.raw.length === description.length) {
+    description = description.slice(0, foreign.index).replace(/\s+[A-Z]{3}$/, "");
+  }
+  if (opts.hasSerialNo) description = description.replace(/^\d{6,}\s+/, "");
+  if (opts.hasRewardPoints) description = description.replace(/\s+-?\d{1,6}$/, "");
+  description = description.replace(/\s+/g, " ").trim();
+  if (!description) return null;
+
+  const isCredit = tail.marker === "CR";
+  const amount = isCredit ? Math.abs(value) : -Math.abs(value);
+  return {
+    date: toIsoDate(m[1], dates),
+    description,
+    amount,
+    drCr: isCredit ? "CR" : "DR",
+    currency: "INR",
+    category: cardCategory(description, isCredit),
+    confidence: 0.88,
+    sourceParser: opts.sourceParser,
+  };
+}
+
+type SummaryField = {
+  key: Exclude<keyof CardSummary, "rewardPoints">;
+  re: RegExp;
+  type: "amount" | "date";
+};
+
+// Ordered so longer captions claim their text first ("available credit limit"
+// before "credit limit", "payment due date" before "due date").
+const SUMMARY_FIELDS: SummaryField[] = [
+  { key: "minimumDue", re: /minimum (?:amount )?due|min\.? amount due/gi, type: "amount" },
+  { key: "totalDue", re: /total (?:amount )?dues?|total payment due/gi, type: "amount" },
+  { key: "dueDate", re: /payment due date|due date/gi, type: "date" },
+  { key: "statementDate", re: /statement date/gi, type: "date" },
+  { key: "availableCredit", re: /available credit(?: limit)?/gi, type: "amount" },
+  { key: "creditLimit", re: /(?:total )?credit limit/gi, type: "amount" },
+];
+
+const SUMMARY_DATE_RE =
+  /\d{2}[/-]\d{2}[/-]\d{2,4}|\d{1,2}\s+[A-Za-z]{3,9},?\s+\d{4}|[A-Za-z]{3,9}\s+\d{1,2},\s*\d{4}/g;
+
+type SummaryValue = { type: "amount" | "date"; raw: string; index: number };
+
+// Dates and amounts of one line, left to right.
+function valuesIn(segment: string): SummaryValue[] {
+  const values: SummaryValue[] = Array.from(segment.matchAll(SUMMARY_DATE_RE)).map((d) => ({
+    type: "date",
+    raw: d[0],
+    index: d.index ?? 0,
+  }));
+  for (const a of amountTokens(segment)) {
+    if (!values.some((d) => a.index >= d.index && a.index < d.index + d.raw.length)) {
+      values.push({ type: "amount", raw: a.raw, index: a.index });
+    }
+  }
+  return values.sort((a, b) => a.index - b.index);
+}
+
+function assign(summary: CardSummary, field: SummaryField, value: SummaryValue) {
+  if (summary[field.key] !== undefined) return;
+  if (field.type === "date") {
+    const date = parseDate(value.raw);
+    if (date) summary[field.key as "dueDate" | "statementDate"] = date;
+  } else {
+    const n = parseAmountToken(value.raw);
+    if (n !== null) summary[field.key as "totalDue" | "minimumDue" | "creditLimit" | "availableCredit"] = n;
+  }
+}
+
+// Summary boxes come either as "Label : value" or as a caption row with the
+// values on the next line in the same order. Both are handled per line.
+export function extractCardSummary(text: string): CardSummary {
+  const lines = text
+    .split(/\r?\n/)
+    .map((l) => l.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+  const summary: CardSummary = {};
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const found: Array<{ field: SummaryField; start: number; end: number }> = [];
+    for (const field of SUMMARY_FIELDS) {
+      for (const m of line.matchAll(field.re)) {
+        const start = m.index ?? 0;
+        const end = start + m[0].length;
+        if (found.some((f) => start < f.end && end > f.start)) continue;
+        found.push({ field, start, end });
+      }
+    }
+    if (found.length === 0) continue;
+    found.sort((a, b) => a.start - b.start);
+
+    const pending: SummaryField[] = [];
+    found.forEach((f, idx) => {
+      const segment = line.slice(f.end, found[idx + 1]?.start ?? line.length);
+      const inline = valuesIn(segment).find((v) => v.type === f.field.type);
+      if (inline) assign(summary, f.field, inline);
+      else pending.push(f.field);
+    });
+
+    if (pending.length > 0 && i + 1 < lines.length) {
+      const next = valuesIn(lines[i + 1]);
+      let cursor = 0;
+      for (const field of pending) {
+        while (cursor < next.length && next[cursor].type !== field.type) cursor++;
+        if (cursor >= next.length) break;
+        assign(summary, field, next[cursor++]);
+      }
+    }
+  }
+
+  // Either "Reward Points 1,234" or a points table whose first numeric row
+  // ends with the closing balance. The phrase also heads a column of the
+  // transaction table (ICICI), so every mention is tried until one has a value.
+  for (let i = 0; i < lines.length && summary.rewardPoints === undefined; i++) {
+    if (!/reward points|payback points/i.test(lines[i])) continue;
+    const sameLine = lines[i].match(/(?:reward|payback) points[^\d]*?(\d[\d,]*)\s*$/i);
+    const numericRow = lines.slice(i + 1, i + 4).find((l) => /^[\d,\s+-]+$/.test(l));
+    const raw = sameLine ? sameLine[1] : numericRow?.trim().split(/\s+/).pop();
+    const points = raw ? Number(raw.replace(/,/g, "")) : NaN;
+    if (Number.isFinite(points)) summary.rewardPoints = points;
+  }
+
+  return summary;
+}
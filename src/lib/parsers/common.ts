@@ -1,62 +1,246 @@
+import { lookupMerchant } from "@/lib/categorize/merchants";
+import { decodeUpi, upiCategory } from "@/lib/narration/upi";
+
+// Month words as printed: "Mar", "MAR", "March", "Sept".
+export const MONTH_WORD =
+  "(?:Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sept?(?:ember)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?|" +
+  "JAN(?:UARY)?|FEB(?:RUARY)?|MAR(?:CH)?|APR(?:IL)?|MAY|JUNE?|JULY?|AUG(?:UST)?|SEPT?(?:EMBER)?|OCT(?:OBER)?|NOV(?:EMBER)?|DEC(?:EMBER)?)\\.?";
+
+// Dates with a year come first so "1 Apr 2023" is not cut short at "1 Apr".
 export const DATE_TOKEN =
-  "(?:\\d{1,2}[./-]\\d{1,2}[./-]\\d{2,4}|\\d{1,2}\\s+[A-Za-z]{3}\\s+\\d{2,4}|\\d{1,2}-[A-Za-z]{3}-\\d{2,4})";
+  "(?:\\d{4}-\\d{2}-\\d{2}|\\d{1,2}[./-]\\d{1,2}[./-]\\d{2,4}|\\d{1,2}\\s+[A-Za-z]{3}\\s+\\d{2,4}|\\d{1,2}-[A-Za-z]{3}-\\d{2,4}|" +
+  `\\d{1,2}[\\s-]${MONTH_WORD},?[\\s-]\\d{4}|${MONTH_WORD}\\s+\\d{1,2},\\s*\\d{4}|\\d{1,2}[\\s-]${MONTH_WORD}\\b)`;
+
+// One money figure found in statement text. `value` is negative for a leading
+// "-" or parentheses; a trailing Cr/Dr is kept apart in `marker` because its
+// meaning depends on the column (direction for a txn, sign for a balance).
+export type AmountToken = {
+  raw: string;
+  index: number;
+  value: number;
+  marker?: "CR" | "DR";
+};
+
+// Number shapes, most specific first: western "1,234,567.89", Indian lakh and
+// crore "12,34,567.89", European "1.234,56", a decimal comma "450,50" and
+// plain "450" / "450.5".
+const AMOUNT_NUMBER =
+  "\\d{1,3}(?:,\\d{3})+(?:\\.\\d{1,2})?|\\d{1,2}(?:,\\d{2})+,\\d{3}(?:\\.\\d{1,2})?|" +
+  "\\d{1,3}(?:\\.\\d{3})+,\\d{2}|\\d+,\\d{2}(?![\\d,])|\\d+(?:\\.\\d{1,2})?";
+
+// Figures glued to letters, slashes, dots, colons or hyphens belong to dates,
+// times, references and UPI handles ("UPI/312345678901/..", "01-04-2023").
+const AMOUNT_RE = new RegExp(
+  "(?<![\\w./:@#-])(?:(\\()\\s?)?(-)?(?:(₹|`|rs\\.?|inr)\\s?)?(-)?" +
+    `(${AMOUNT_NUMBER})` +
+    "(\\s?\\))?(?:\\s?\\(?(cr|dr)\\b\\)?\\.?)?(?![\\w/@:%-]|[.,]\\d)",
+  "gi"
+);
+
+// Longest plain integer taken as money (999,99,99,999 with the grouping left out).
+const MAX_BARE_DIGITS = 10;
 
-export function normalizeAmountToken(raw: string): string {
-  return raw.replace(/[^\d,.-]/g, "").replace(/,/g, "").trim();
+function numberValue(text: string): number {
+  if (/^\d{1,3}(?:\.\d{3})+,\d{2}$/.test(text)) return Number(text.replace(/\./g, "").replace(",", "."));
+  if (/^\d+,\d{2}$/.test(text)) return Number(text.replace(",", "."));
+  return Number(text.replace(/,/g, ""));
 }
 
-export function parseAmountToken(token: string): number | null {
-  const normalized = normalizeAmountToken(token);
-  if (!/^-?\d+(?:\.\d{1,2})?$/.test(normalized)) return null;
-  const n = Number(normalized);
-  return Number.isFinite(n) ? n : null;
-}
-
-export function toIsoDate(d: string): string {
-  const slash = d.match(/^(\d{1,2})[./-](\d{1,2})[./-](\d{2,4})$/);
-  if (slash) {
-    const dd = slash[1].padStart(2, "0");
-    const mm = slash[2].padStart(2, "0");
-    let yyyy = slash[3];
-    if (yyyy.length === 2) {
-      const y = Number(yyyy);
-      yyyy = String(y >= 70 ? 1900 + y : 2000 + y);
+function scanAmounts(text: string, bareIntegers: boolean): AmountToken[] {
+  const tokens: AmountToken[] = [];
+  for (const m of text.matchAll(AMOUNT_RE)) {
+    const [whole, open, minus, currency, innerMinus, number, close, marker] = m;
+    let raw = whole;
+    let index = m.index ?? 0;
+    // A lone bracket is punctuation around the figure, not a negative.
+    const parens = !!open && !!close;
+    if (open && !close) {
+      const at = raw.indexOf("(") + 1;
+      raw = raw.slice(at).trimStart();
+      index += whole.length - raw.length;
+    } else if (close && !open && !marker) {
+      raw = raw.slice(0, raw.lastIndexOf(")")).trimEnd();
     }
-    return `${yyyy}-${mm}-${dd}`;
+    // Cheque numbers, account numbers and reference ids are plain digit runs;
+    // in running text only a currency sign makes one of them money.
+    const bare = /^\d+$/.test(number);
+    if (bare && !currency && !(bareIntegers && number.length <= MAX_BARE_DIGITS)) continue;
+    if (bare && number.length > 1 && number.startsWith("0")) continue;
+    const value = numberValue(number);
+    if (!Number.isFinite(value)) continue;
+    tokens.push({
+      raw,
+      index,
+      value: parens || minus || innerMinus ? -value : value,
+      marker: marker ? (marker.toUpperCase() as "CR" | "DR") : undefined,
+    });
   }
+  return tokens;
+}
 
-  const monthName = d.match(/^(\d{1,2})[\s-]([A-Za-z]{3})[\s-](\d{2,4})$/);
-  if (monthName) {
-    const dd = monthName[1].padStart(2, "0");
-    const mmm = monthName[2].toLowerCase();
-    const monthMap: Record<string, string> = {
-      jan: "01",
-      feb: "02",
-      mar: "03",
-      apr: "04",
-      may: "05",
-      jun: "06",
-      jul: "07",
-      aug: "08",
-      sep: "09",
-      oct: "10",
-      nov: "11",
-      dec: "12",
-    };
-    const mm = monthMap[mmm];
-    if (!mm) return d;
-    let yyyy = monthName[3];
-    if (yyyy.length === 2) {
-      const y = Number(yyyy);
-      yyyy = String(y >= 70 ? 1900 + y : 2000 + y);
-    }
-    return `${yyyy}-${mm}-${dd}`;
+// Every amount printed in a line of statement text, left to right.
+export function amountTokens(text: string): AmountToken[] {
+  return scanAmounts(text, false);
+}
+
+// A table cell that holds exactly one amount; a known money column may print
+// whole rupees without grouping ("5000").
+export function parseAmount(cell: string): AmountToken | null {
+  const s = cell.replace(/\s+/g, " ").trim();
+  const tokens = scanAmounts(s, true);
+  return tokens.length === 1 && tokens[0].index === 0 && tokens[0].raw.length === s.length ? tokens[0] : null;
+}
+
+export function parseAmountToken(token: string): number | null {
+  return parseAmount(token)?.value ?? null;
+}
+
+export type DateOrder = "dmy" | "mdy";
+
+// How one statement's dates are read: the day/month order worked out from all
+// of its numeric dates, and the period that supplies the year of dates printed
+// without one ("12 Mar").
+export type DateContext = {
+  order: DateOrder;
+  periodFrom?: string;
+  periodTo?: string;
+};
+
+const MONTHS = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+];
+
+function monthOf(word: string): number | null {
+  const w = word.toLowerCase().replace(/\.$/, "");
+  if (w.length < 3) return null;
+  const idx = MONTHS.findIndex((m) => m.startsWith(w));
+  return idx < 0 ? null : idx + 1;
+}
+
+function fullYear(y: string): number {
+  if (y.length !== 2) return Number(y);
+  const n = Number(y);
+  return n >= 70 ? 1900 + n : 2000 + n;
+}
+
+function isoOf(year: number, month: number, day: number): string | null {
+  if (year < 1900 || year > 2100 || month < 1 || month > 12 || day < 1) return null;
+  if (day > new Date(Date.UTC(year, month, 0)).getUTCDate()) return null;
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+function dayNumber(iso: string): number {
+  return Date.parse(`${iso}T00:00:00Z`) / 86_400_000;
+}
+
+// The year that puts a year-less date inside the statement period, or
+// nearest to it: "28 Dec" and "03 Jan" in a Dec 2024 - Jan 2025 statement
+// land in different years.
+function yearFor(month: number, day: number, dates?: DateContext): number | null {
+  const from = dates?.periodFrom ?? dates?.periodTo;
+  const to = dates?.periodTo ?? from;
+  if (!from || !to) return null;
+  let best: { year: number; distance: number } | null = null;
+  for (let year = Number(from.slice(0, 4)) - 1; year <= Number(to.slice(0, 4)) + 1; year++) {
+    const iso = isoOf(year, month, day);
+    if (!iso) continue;
+    const distance = iso < from ? dayNumber(from) - dayNumber(iso) : iso > to ? dayNumber(iso) - dayNumber(to) : 0;
+    if (!best || distance < best.distance) best = { year, distance };
+  }
+  return best?.year ?? null;
+}
+
+export function isValidIsoDate(value: string): boolean {
+  const m = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  return !!m && isoOf(Number(m[1]), Number(m[2]), Number(m[3])) !== null;
+}
+
+// A printed date as YYYY-MM-DD, or null when it is not a real calendar date.
+// Without a context, numeric dates are read day first unless only the other
+// order is possible.
+export function parseDate(raw: string, dates?: DateContext): string | null {
+  const s = raw.replace(/\s+/g, " ").trim();
+
+  const iso = s.match(/^(\d{4})[./-](\d{1,2})[./-](\d{1,2})$/);
+  if (iso) return isoOf(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+  const numeric = s.match(/^(\d{1,2})[./-](\d{1,2})(?:[./-](\d{2}|\d{4}))?$/);
+  if (numeric) {
+    const a = Number(numeric[1]);
+    const b = Number(numeric[2]);
+    const order = dates?.order ?? (b > 12 && a <= 12 ? "mdy" : "dmy");
+    const [day, month] = order === "mdy" ? [b, a] : [a, b];
+    const year = numeric[3] ? fullYear(numeric[3]) : yearFor(month, day, dates);
+    return year === null ? null : isoOf(year, month, day);
+  }
+
+  // "12 Mar 2025", "12-Mar-25", "12 March, 2025", "12 Mar"
+  const dayFirst = s.match(/^(\d{1,2})(?:st|nd|rd|th)?[\s-]([A-Za-z]{3,9}\.?),?(?:[\s-](\d{2}|\d{4}))?$/);
+  // "Mar 12, 2025", "March 12 2025", "Mar 12"
+  const monthFirst = s.match(/^([A-Za-z]{3,9}\.?)[\s-](\d{1,2})(?:st|nd|rd|th)?(?:,?\s(\d{4}))?$/);
+  const named = dayFirst
+    ? { day: Number(dayFirst[1]), month: monthOf(dayFirst[2]), year: dayFirst[3] }
+    : monthFirst
+      ? { day: Number(monthFirst[2]), month: monthOf(monthFirst[1]), year: monthFirst[3] }
+      : null;
+  if (!named?.month) return null;
+  const year = named.year ? fullYear(named.year) : yearFor(named.month, named.day, dates);
+  return year === null ? null : isoOf(year, named.month, named.day);
+}
+
+// Parsers keep the printed text when a date cannot be read, so the pipeline
+// can report it as a warning instead of guessing.
+export function toIsoDate(d: string, dates?: DateContext): string {
+  return parseDate(d, dates) ?? d;
+}
+
+// Day-first unless more of the statement's dates can only be month-first
+// (a second number above 12).
+export function inferDateOrder(raws: Iterable<string>): DateOrder {
+  let dmy = 0;
+  let mdy = 0;
+  for (const raw of raws) {
+    const m = raw.trim().match(/^(\d{1,2})[./-](\d{1,2})(?:[./-]\d{2,4})?$/);
+    if (!m) continue;
+    const a = Number(m[1]);
+    const b = Number(m[2]);
+    if (a > 12 && b <= 12) dmy++;
+    else if (b > 12 && a <= 12) mdy++;
   }
+  return mdy > dmy ? "mdy" : "dmy";
+}
 
-  return d;
+// Context from every date of a statement. Without a printed period the span
+// of the dates that carry a year stands in for it.
+export function dateContextOf(raws: string[], period: { from?: string; to?: string } = {}): DateContext {
+  const order = inferDateOrder(raws);
+  if (period.from || period.to) return { order, periodFrom: period.from, periodTo: period.to };
+  const dated = raws
+    .map((r) => parseDate(r, { order }))
+    .filter((d): d is string => d !== null)
+    .sort();
+  return { order, periodFrom: dated[0], periodTo: dated[dated.length - 1] };
 }
 
+// Known merchants and billers decide first, then a UPI remark that names the
+// purpose; otherwise payment-rail and banking keywords give a coarse category.
 export function inferCategory(text: string): string {
+  const known = lookupMerchant(text);
+  if (known) return known.category;
+  const upi = decodeUpi(text);
+  const fromRemark = upi && upiCategory(upi);
+  if (fromRemark) return fromRemark;
   const t = text.toLowerCase();
   if (t.includes("upi") || t.includes("imps") || t.includes("neft") || t.includes("rtgs")) return "transfer";
   if (t.includes("atm")) return "cash";
@@ -66,3 +250,34 @@ export function inferCategory(text: string): string {
   if (t.includes("charge") || t.includes("fee")) return "fees";
   return "uncategorized";
 }
+
+// Balance cells such as "12,345.00Cr" / "1,200.50 DR". Dr balances are overdrawn
+// and come back negative.
+export function balanceValue(token: AmountToken): number {
+  return token.marker === "DR" ? -Math.abs(token.value) : token.value;
+}
+
+export function parseBalanceToken(token: string): number | null {
+  const amount = parseAmount(token);
+  return amount ? balanceValue(amount) : null;
+}
+
+// Rows where only one of the Debit/Credit columns is filled. The balance
+// movement decides the direction; narration keywords are the last resort.
+export function signFromBalance(
+  value: number,
+  balance: number,
+  prevBalance: number | null,
+  description: string
+): { amount: number; confidence: number } {
+  if (typeof prevBalance === "number") {
+    const delta = balance - prevBalance;
+    if (Math.abs(delta - value) < 0.01) return { amount: value, confidence: 0.9 };
+    if (Math.abs(delta + value) < 0.01) return { amount: -value, confidence: 0.9 };
+    return { amount: delta >= 0 ? value : -value, confidence: 0.72 };
+  }
+  const creditHint = /(salary|interest|refund|credit|cashback|received|neft cr|imps.*cr|reversal|by transfer)/i.test(
+    description
+  );
+  return { amount: creditHint ? value : -value, confidence: 0.7 };
+}
@@ -0,0 +1,131 @@
+import type { TableRegion, UnmatchedLine } from "@/lib/types/analyze";
+import { amountTokens, DATE_TOKEN } from "./common";
+import type { ParserTxn } from "./types";
+
+// Debug mode only: maps the chosen parser's transactions back onto the text
+// lines to show where the table sat and which lines were left over. This
+// works from the output alone, so hand-written parsers and JSON templates are
+// diagnosed the same way.
+
+const MAX_UNMATCHED = 400;
+const DATED_RE = new RegExp(`^(?:\\d+\\s+)?${DATE_TOKEN}\\b`);
+const PAGE_NOISE_RE =
+  /^(?:page\s*(?:no\.?)?\s*:?\s*\d+|continued|contd\.?|this is a computer generated|\*+\s*end of statement|generated on)/i;
+
+function toLines(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map((l) => l.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+}
+
+function norm(s: string): string {
+  return s.toLowerCase().replace(/[^a-z0-9]+/g, "");
+}
+
+function isColumnHeaderLine(line: string): boolean {
+  const l = line.toLowerCase();
+  const hasText = /narration|description|particulars|remarks|details/.test(l);
+  const hasMoney = /withdraw|deposit|debit|credit|amount|balance/.test(l);
+  return l.includes("date") && hasText && hasMoney && amountTokens(l).length === 0;
+}
+
+// Each transaction is looked up in order from where the previous one was
+// found, by the start of its description, so repeated narrations land on
+// their own lines.
+function locateRows(lines: string[], txns: ParserTxn[]): Array<{ line: number; txn: ParserTxn }> {
+  const found: Array<{ line: number; txn: ParserTxn }> = [];
+  let cursor = 0;
+  for (const txn of txns) {
+    const key = norm(txn.description).slice(0, 12);
+    if (!key) continue;
+    for (let i = cursor; i < lines.length; i++) {
+      if (norm(lines[i]).includes(key)) {
+        found.push({ line: i, txn });
+        cursor = i + 1;
+        break;
+      }
+    }
+  }
+  return found;
+}
+
+function unmatchedReason(line: string, inTable: boolean, parserId: string): string | null {
+  const dated = DATED_RE.test(line);
+  const money = amountTokens(line).length > 0;
+  if (dated && money) {
+    return inTable
+      ? `dated line with amounts not read as a row by ${parserId}`
+      : "dated line with amounts outside the table region";
+  }
+  if (!inTable) return null;
+  if (PAGE_NOISE_RE.test(line)) return "page header or footer inside the table";
+  if (dated) return "dated line without an amount";
+  if (money) return "amounts without a date";
+  return "text not attached to any transaction";
+}
+
+export function diagnoseLines(
+  text: string,
+  txns: ParserTxn[],
+  parserId: string
+): { lineCount: number; tableRegions: TableRegion[]; unmatched: UnmatchedLine[]; unmatchedTruncated?: number } {
+  const lines = toLines(text);
+  const rows = locateRows(lines, txns);
+  const rowAt = new Map(rows.map((r) => [r.line, r.txn]));
+
+  // A region opens at a column header (or at the first row when the header
+  // was not recognised) and closes after the last row before the next header.
+  const tableRegions: TableRegion[] = [];
+  let open: TableRegion | null = null;
+  let lastTxn: ParserTxn | null = null;
+  const inTable = new Set<number>();
+  const continuation = new Set<number>();
+
+  lines.forEach((line, i) => {
+    if (isColumnHeaderLine(line)) {
+      open = { startLine: i + 1, endLine: i + 1, header: line, rows: 0 };
+      tableRegions.push(open);
+      lastTxn = null;
+      return;
+    }
+    const txn = rowAt.get(i);
+    if (txn) {
+      if (!open) {
+        open = { startLine: i + 1, endLine: i + 1, rows: 0 };
+        tableRegions.push(open);
+      }
+      open.rows += 1;
+      open.endLine = i + 1;
+      lastTxn = txn;
+      return;
+    }
+    // Wrapped narration: the line's text is part of the row above.
+    if (lastTxn && norm(lastTxn.description).includes(norm(line)) && norm(line).length > 0) {
+      continuation.add(i);
+      if (open) open.endLine = i + 1;
+    }
+  });
+
+  const regions = tableRegions.filter((r) => r.rows > 0);
+  for (const r of regions) {
+    for (let n = r.startLine; n <= r.endLine; n++) inTable.add(n - 1);
+  }
+
+  const unmatched: UnmatchedLine[] = [];
+  let total = 0;
+  lines.forEach((line, i) => {
+    if (rowAt.has(i) || continuation.has(i) || isColumnHeaderLine(line)) return;
+    const reason = unmatchedReason(line, inTable.has(i), parserId);
+    if (!reason) return;
+    total += 1;
+    if (unmatched.length < MAX_UNMATCHED) unmatched.push({ line: i + 1, text: line, reason });
+  });
+
+  return {
+    lineCount: lines.length,
+    tableRegions: regions,
+    unmatched,
+    unmatchedTruncated: total > unmatched.length ? total - unmatched.length : undefined,
+  };
+}
@@ -1,4 +1,5 @@
-import { DATE_TOKEN, inferCategory, parseAmountToken, toIsoDate } from "./common";
+import { amountTokens, DATE_TOKEN, inferCategory, toIsoDate, type DateContext } from "./common";
+import { tableToTxns } from "./layout";
 import type { ParserTxn, StatementParser } from "./types";
 
 type ParsedRow = {
@@ -17,7 +18,7 @@ function looksLikeHeader(line: string): boolean {
   return hasDateCols && hasDescCol && l.includes("withdraw") && l.includes("deposit") && l.includes("balance");
 }
 
-function parseRows(text: string): ParsedRow[] {
+function parseRows(text: string, dates?: DateContext): ParsedRow[] {
   const lines = text
     .split(/\r?\n/)
     .map((l) => l.replace(/\s+/g, " ").trim())
@@ -38,21 +39,11 @@ function parseRows(text: string): ParsedRow[] {
     const m = line.match(rowRe);
     if (m) {
       if (current) rows.push(current);
-      const date = toIsoDate(m[1]);
+      const date = toIsoDate(m[1], dates);
       const restRaw = m[3];
-      const amountMatches = Array.from(restRaw.matchAll(/-?\d[\d,]*\.\d{1,2}/g));
-      const amountValues = amountMatches
-        .map((a) => parseAmountToken(a[0]))
-        .filter((n): n is number => n !== null);
-      const lastThree = amountValues.slice(-3);
-      const firstTailIndex =
-        amountMatches.length >= 3
-          ? (amountMatches[amountMatches.length - 3].index ?? restRaw.length)
-          : amountMatches.length >= 2
-            ? (amountMatches[amountMatches.length - 2].index ?? restRaw.length)
-            : amountMatches.length >= 1
-              ? (amountMatches[amountMatches.length - 1].index ?? restRaw.length)
-              : restRaw.length;
+      const amounts = amountTokens(restRaw);
+      const lastThree = amounts.slice(-3).map((a) => a.value);
+      const firstTailIndex = amounts.length ? amounts[Math.max(0, amounts.length - 3)].index : restRaw.length;
       const particulars = restRaw.slice(0, firstTailIndex).replace(/\s+/g, " ").trim();
 
       current = {
@@ -106,6 +97,7 @@ function rowsToTxns(rows: ParsedRow[]): ParserTxn[] {
       category: inferCategory(r.particulars),
       confidence: hasDeposit || hasWithdrawal ? 0.84 : 0.68,
       sourceParser: "generic-v1",
+      balance: r.balance,
     });
   }
   return txns;
@@ -119,8 +111,11 @@ export const genericStatementParser: StatementParser = {
     if (lower.includes("transaction date") && lower.includes("withdraw")) return 0.55;
     return 0.2;
   },
-  parse(text) {
-    const rows = parseRows(text);
+  parse(text, dates) {
+    const rows = parseRows(text, dates);
     return rowsToTxns(rows);
   },
+  parseTable(table, dates) {
+    return tableToTxns(table, "generic-v1", 0.9, dates);
+  },
 };
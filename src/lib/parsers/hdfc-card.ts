@@ -0,0 +1,49 @@
+import { extractCardSummary, parseCardLine } from "./card-common";
+import { extractStatementHeader } from "./header";
+import type { DateContext } from "./common";
+import type { ParserTxn, StatementParser } from "./types";
+
+// Domestic / International Transactions: Date [time] | Transaction Description | Amount (in Rs.) [Cr]
+function parseHdfcCardRows(text: string, dates?: DateContext): ParserTxn[] {
+  const lines = text
+    .split(/\r?\n/)
+    .map((l) => l.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+
+  const txns: ParserTxn[] = [];
+  let inTable = false;
+  for (const line of lines) {
+    if (/transaction description/i.test(line) && /amount/i.test(line)) {
+      inTable = true;
+      continue;
+    }
+    if (/^reward points summary/i.test(line)) {
+      inTable = false;
+      continue;
+    }
+    if (!inTable) continue;
+    const txn = parseCardLine(line, { sourceParser: "hdfc-card-v1" }, dates);
+    if (txn) txns.push(txn);
+  }
+  return txns;
+}
+
+export const hdfcCardParser: StatementParser = {
+  id: "hdfc-card-v1",
+  kind: "credit_card",
+  canParse(text) {
+    const l = text.toLowerCase();
+    const hasColumns = l.includes("transaction description") && /amount \(in rs\.?\)/.test(l);
+    if (l.includes("hdfc") && l.includes("credit card") && hasColumns) return 0.95;
+    if (l.includes("domestic transactions") && hasColumns) return 0.75;
+    if (l.includes("hdfc") && l.includes("credit card")) return 0.4;
+    return 0.05;
+  },
+  parse(text, dates) {
+    return parseHdfcCardRows(text, dates);
+  },
+  summary: extractCardSummary,
+  header(text) {
+    return extractStatementHeader(text, "HDFC Bank");
+  },
+};
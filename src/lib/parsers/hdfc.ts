@@ -0,0 +1,142 @@
+import { amountTokens, inferCategory, signFromBalance, toIsoDate, type DateContext } from "./common";
+import { extractStatementHeader } from "./header";
+import { tableToTxns } from "./layout";
+import type { ParserTxn, StatementParser } from "./types";
+
+const HDFC_DATE = "\\d{2}\\/\\d{2}\\/\\d{2,4}";
+
+// Date | Narration | Chq./Ref.No. | Value Dt | Withdrawal Amt. | Deposit Amt. | Closing Balance
+const rowRe = new RegExp(`^(${HDFC_DATE})\\s+(.*?)(?:\\s+([A-Z0-9]{6,}))?\\s+(${HDFC_DATE})\\s+(\\d.*)$`);
+
+function isColumnHeader(line: string): boolean {
+  const l = line.toLowerCase();
+  return l.includes("narration") && l.includes("chq./ref.no.") && l.includes("closing balance");
+}
+
+// Lines HDFC prints at the top and bottom of every page. They end the table on
+// the current page; the next column header line resumes it.
+function isPageBoundary(line: string): boolean {
+  return /^(hdfc bank limited|page no\s*\.?\s*:|statement of account|\*closing balance includes|contents of this statement|state account branch|hdfc bank gstin|registered office address|generated on|this is a computer generated)/i.test(
+    line
+  );
+}
+
+function toLines(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map((l) => l.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+}
+
+// STATEMENT SUMMARY :- / Opening Balance Dr Count Cr Count Debits Credits Closing Bal / <values>
+// The counts have no decimals, so the amounts are opening, debits, credits, closing.
+function summaryBalances(lines: string[]): { opening: number | null; closing: number | null } {
+  const idx = lines.findIndex((l) => /^opening balance\s+dr count/i.test(l));
+  if (idx < 0 || idx + 1 >= lines.length) return { opening: null, closing: null };
+  const amounts = amountTokens(lines[idx + 1]).map((a) => a.value);
+  return { opening: amounts[0] ?? null, closing: amounts.length >= 4 ? amounts[amounts.length - 1] : null };
+}
+
+type HdfcRow = {
+  date: string;
+  narration: string;
+  reference?: string; // Chq./Ref.No.
+  amounts: number[];
+};
+
+function parseHdfcRows(text: string, dates?: DateContext): ParserTxn[] {
+  const lines = toLines(text);
+
+  const rows: HdfcRow[] = [];
+  let inTable = false;
+  let current: HdfcRow | null = null;
+
+  for (const line of lines) {
+    if (isColumnHeader(line)) {
+      inTable = true;
+      continue;
+    }
+    if (/^statement summary/i.test(line)) break;
+    if (isPageBoundary(line)) {
+      inTable = false;
+      continue;
+    }
+    if (!inTable) continue;
+
+    const m = line.match(rowRe);
+    if (m) {
+      if (current) rows.push(current);
+      const amounts = amountTokens(m[5]).map((a) => a.value);
+      current = { date: toIsoDate(m[1], dates), narration: m[2].trim(), reference: m[3], amounts };
+      continue;
+    }
+
+    // Wrapped narration: HDFC continues the text on the following line(s),
+    // breaking UPI/IMPS narrations right after a "-" or "/" separator.
+    if (current) {
+      const joiner = /[-/]$/.test(current.narration) ? "" : " ";
+      current.narration = `${current.narration}${joiner}${line}`.trim();
+    }
+  }
+  if (current) rows.push(current);
+
+  const txns: ParserTxn[] = [];
+  let prevBalance = summaryBalances(lines).opening;
+
+  for (const r of rows) {
+    if (r.amounts.length < 2) continue;
+    const balance = r.amounts[r.amounts.length - 1];
+
+    let amount: number;
+    let confidence = 0.9;
+    if (r.amounts.length >= 3) {
+      amount = r.amounts[r.amounts.length - 2] - r.amounts[r.amounts.length - 3];
+    } else {
+      // One of Withdrawal/Deposit is blank.
+      ({ amount, confidence } = signFromBalance(r.amounts[0], balance, prevBalance, r.narration));
+    }
+    prevBalance = balance;
+
+    txns.push({
+      date: r.date,
+      description: r.narration,
+      amount,
+      drCr: amount >= 0 ? "CR" : "DR",
+      currency: "INR",
+      category: inferCategory(r.narration),
+      confidence,
+      sourceParser: "hdfc-v1",
+      balance,
+      reference: r.reference,
+    });
+  }
+
+  return txns;
+}
+
+export const hdfcStatementParser: StatementParser = {
+  id: "hdfc-v1",
+  canParse(text) {
+    const l = text.toLowerCase();
+    const hasColumns = l.includes("chq./ref.no.") && l.includes("value dt") && l.includes("closing balance");
+    if (l.includes("hdfc bank") && hasColumns) return 0.97;
+    if (hasColumns && l.includes("withdrawal amt.") && l.includes("deposit amt.")) return 0.85;
+    if (l.includes("hdfc bank")) return 0.3;
+    return 0.03;
+  },
+  parse(text, dates) {
+    return parseHdfcRows(text, dates);
+  },
+  parseTable(table, dates) {
+    return tableToTxns(table, "hdfc-v1", 0.95, dates);
+  },
+  header(text) {
+    const header = extractStatementHeader(text, "HDFC Bank");
+    const { opening, closing } = summaryBalances(toLines(text));
+    return {
+      ...header,
+      openingBalance: opening ?? header.openingBalance,
+      closingBalance: closing ?? header.closingBalance,
+    };
+  },
+};
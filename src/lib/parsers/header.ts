@@ -0,0 +1,224 @@
+import type { StatementHeader } from "@/lib/types/analyze";
+import {
+  amountTokens,
+  balanceValue,
+  DATE_TOKEN,
+  dateContextOf,
+  inferDateOrder,
+  parseDate,
+  type DateContext,
+  type DateOrder,
+} from "./common";
+
+// IFSC codes start with the bank's four-letter code; the same names are
+// searched for in the header when no IFSC is printed.
+const IFSC_BANKS: Record<string, string> = {
+  HDFC: "HDFC Bank",
+  SBIN: "State Bank of India",
+  ICIC: "ICICI Bank",
+  UTIB: "Axis Bank",
+  KKBK: "Kotak Mahindra Bank",
+  YESB: "Yes Bank",
+  IDFB: "IDFC FIRST Bank",
+  INDB: "IndusInd Bank",
+  FDRL: "Federal Bank",
+  PUNB: "Punjab National Bank",
+  BARB: "Bank of Baroda",
+  CNRB: "Canara Bank",
+  UBIN: "Union Bank of India",
+};
+
+const IFSC_RE = /\b([A-Z]{4})0[A-Z0-9]{6}\b/;
+const HEADER_DATE =
+  "\\d{4}-\\d{2}-\\d{2}|\\d{1,2}[./-]\\d{1,2}[./-]\\d{2,4}|\\d{1,2}[\\s-][A-Za-z]{3,9},?[\\s-]\\d{2,4}|[A-Za-z]{3,9}\\s+\\d{1,2},\\s*\\d{4}";
+const PERIOD_RE = new RegExp(
+  `(?:from|period|statement for)\\s*:?\\s*(${HEADER_DATE})\\s*(?:to|till|-|–)\\s*:?\\s*(${HEADER_DATE})`,
+  "i"
+);
+// The caption and the rest of its line; the amount is read by balanceAfter.
+const OPENING_RE = new RegExp(
+  `(?:opening balance|balance b\\/f|balance brought forward)(?:\\s+as (?:on|of)\\s+(?:${HEADER_DATE}))?([^\\n]*)`,
+  "gi"
+);
+const CLOSING_RE = new RegExp(
+  `(?:closing balance|closing bal\\.?|balance c\\/f)(?:\\s+as (?:on|of)\\s+(?:${HEADER_DATE}))?([^\\n]*)`,
+  "gi"
+);
+const SALUTATION_RE = /^(?:mr|mrs|ms|miss|m\/s|dr|shri|smt)\.?\s+[A-Za-z]/i;
+const DATED_ROW_RE = new RegExp(`^(?:\\d+\\s+)?${DATE_TOKEN}\\s+\\S`);
+const DATE_SCAN_RE = new RegExp(`\\b${DATE_TOKEN}`, "g");
+
+type LabelledKey = "accountHolder" | "accountNumber" | "accountType" | "ifsc" | "branch";
+
+// A null key is a caption whose value is not kept; it only ends the value of
+// the caption before it on the same line.
+const HEADER_FIELDS: Array<{ key: LabelledKey | null; re: RegExp }> = [
+  {
+    key: "accountHolder",
+    re: /account holder(?:'s)? name|account name|customer name|name of (?:the )?(?:account holder|customer)|\bname\b/gi,
+  },
+  { key: "accountNumber", re: /a\/c\.? no\.?|account (?:number|no\.?)|card (?:number|no\.?)/gi },
+  { key: "accountType", re: /account type|account description|type of account|a\/c type|product name|\bproduct\b/gi },
+  { key: "ifsc", re: /ifsc? code|\bifsc\b/gi },
+  { key: "branch", re: /account branch|branch name|home branch|\bbranch\b/gi },
+  {
+    key: null,
+    re: /nominee name|product code|branch code|customer id|cust id|\bcif(?: no\.?)?|micr(?: code)?|\baddress\b|e-?mail(?: id)?|phone(?: no\.?)?|mobile(?: no\.?)?|nomination|\bcurrency\b|joint holders?|statement date|od limit|drawing power|\bdate\b|\bperiod\b|\bfrom\b/gi,
+  },
+];
+
+// Everything above the first transaction row. Narrations name other banks
+// and people, so labelled fields are only read from here.
+function headerLines(lines: string[]): string[] {
+  const end = lines.findIndex((l) => DATED_ROW_RE.test(l) && amountTokens(l).length > 0);
+  return lines.slice(0, end < 0 ? Math.min(lines.length, 60) : end);
+}
+
+function cleanValue(raw: string): string | undefined {
+  const value = raw
+    .replace(/^[\s:.\-–]+/, "")
+    .replace(/[\s:,;|\-–]+$/, "")
+    .trim();
+  return value && /[A-Za-z0-9]/.test(value) ? value : undefined;
+}
+
+type Caption = { key: LabelledKey | null; start: number; end: number };
+
+// Captions are matched longest first so "Branch Name" is not read as "Name".
+function captionsIn(line: string): Caption[] {
+  const found: Caption[] = [];
+  const candidates = HEADER_FIELDS.flatMap((field) =>
+    Array.from(line.matchAll(field.re)).map((m) => ({
+      key: field.key,
+      start: m.index ?? 0,
+      end: (m.index ?? 0) + m[0].length,
+    }))
+  ).sort((a, b) => b.end - b.start - (a.end - a.start));
+  for (const c of candidates) {
+    if (!found.some((f) => c.start < f.end && c.end > f.start)) found.push(c);
+  }
+  return found.sort((a, b) => a.start - b.start);
+}
+
+function labelledValues(line: string): Partial<Record<LabelledKey, string>> {
+  const found = captionsIn(line);
+  const values: Partial<Record<LabelledKey, string>> = {};
+  found.forEach((f, idx) => {
+    if (!f.key || values[f.key]) return;
+    const segment = line.slice(f.end, found[idx + 1]?.start ?? line.length);
+    // Only "Caption : value" or "Caption value"; a caption followed straight
+    // by another caption has no value on this line.
+    const value = cleanValue(segment);
+    if (value) values[f.key] = value;
+  });
+  return values;
+}
+
+// Keeps the last four digits: "50100012345678" and "XXXXXXXXXX5678" both
+// become "XXXXXXXXXX5678"; card numbers keep their length the same way.
+export function maskAccountNumber(raw: string): string | undefined {
+  const token = raw.match(/[\dXx*][\dXx*\s-]{2,}[\dXx*]/)?.[0].replace(/[\s-]/g, "");
+  if (!token || !/\d{4}$/.test(token)) return undefined;
+  return "X".repeat(token.length - 4) + token.slice(-4);
+}
+
+function capitalize(word: string): string {
+  return word.length <= 3 ? word.toUpperCase() : word[0].toUpperCase() + word.slice(1).toLowerCase();
+}
+
+function headerDate(raw: string, order: DateOrder): string | undefined {
+  return parseDate(raw, { order }) ?? undefined;
+}
+
+function datesIn(text: string): string[] {
+  return Array.from(text.matchAll(DATE_SCAN_RE), (m) => m[0]);
+}
+
+function toLines(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map((l) => l.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+}
+
+// The printed "From ... To ..." period, read in the statement's date order.
+function printedPeriod(headText: string, order: DateOrder): { from?: string; to?: string } {
+  const period = headText.match(PERIOD_RE);
+  return period ? { from: headerDate(period[1], order), to: headerDate(period[2], order) } : {};
+}
+
+// How to read this statement's dates: the day/month order from all of them
+// together, and the printed period (or the span of its dated rows) for dates
+// printed without a year.
+export function statementDates(text: string): DateContext {
+  const raws = datesIn(text);
+  const head = headerLines(toLines(text)).join("\n");
+  return dateContextOf(raws, printedPeriod(head, inferDateOrder(raws)));
+}
+
+function bankFromText(text: string, ifsc: string | undefined): string | undefined {
+  const byCode = ifsc ? IFSC_BANKS[ifsc.slice(0, 4)] : undefined;
+  if (byCode) return byCode;
+  const lower = text.toLowerCase();
+  let best: { name: string; index: number } | undefined;
+  for (const name of Object.values(IFSC_BANKS)) {
+    const index = lower.indexOf(name.toLowerCase());
+    if (index >= 0 && (!best || index < best.index)) best = { name, index };
+  }
+  return best?.name;
+}
+
+// The balance printed right after an opening/closing caption, at most a few
+// non-digit characters (" : ", "(INR)") away.
+function balanceAfter(rest: string): number | undefined {
+  const first = amountTokens(rest)[0];
+  if (!first || first.index > 12 || /\d/.test(rest.slice(0, first.index))) return undefined;
+  return balanceValue(first);
+}
+
+// Labelled header fields ("Account No : ...", "IFSC Code ...") from the lines
+// above the transaction table, the statement period, and opening/closing
+// balances from a summary block anywhere in the text. Bank parsers pass their
+// bank name and fill in balances their own summary layout prints.
+export function extractStatementHeader(text: string, bankName?: string): StatementHeader {
+  const head = headerLines(toLines(text));
+  const headText = head.join("\n");
+
+  const labelled: Partial<Record<LabelledKey, string>> = {};
+  for (const line of head) {
+    for (const [key, value] of Object.entries(labelledValues(line)) as Array<[LabelledKey, string]>) {
+      labelled[key] ??= value;
+    }
+  }
+
+  // Some banks print the holder unlabelled, "MR. A B SHARMA" ahead of the
+  // first caption on its line.
+  if (!labelled.accountHolder) {
+    const line = head.find((l) => SALUTATION_RE.test(l));
+    if (line) labelled.accountHolder = cleanValue(line.slice(0, captionsIn(line)[0]?.start ?? line.length));
+  }
+
+  const ifsc = (labelled.ifsc ?? headText).match(IFSC_RE)?.[0];
+  const typeInText = headText.match(/\b(savings|current|salary|nre|nro)\s+(?:bank\s+)?a(?:\/c|ccount)\b/i);
+  const period = printedPeriod(headText, inferDateOrder(datesIn(text)));
+  const opening = Array.from(text.matchAll(OPENING_RE))
+    .map((m) => balanceAfter(m[1]))
+    .find((b) => b !== undefined);
+  const closing = Array.from(text.matchAll(CLOSING_RE))
+    .map((m) => balanceAfter(m[1]))
+    .filter((b) => b !== undefined)
+    .pop();
+
+  return {
+    bankName: bankName ?? bankFromText(headText, ifsc),
+    accountHolder: labelled.accountHolder && !/\d{4}/.test(labelled.accountHolder) ? labelled.accountHolder : undefined,
+    accountNumber: labelled.accountNumber ? maskAccountNumber(labelled.accountNumber) : undefined,
+    accountType: labelled.accountType ?? (typeInText ? `${capitalize(typeInText[1])} account` : undefined),
+    ifsc,
+    branch: labelled.branch,
+    periodFrom: period.from,
+    periodTo: period.to,
+    openingBalance: opening,
+    closingBalance: closing,
+  };
+}
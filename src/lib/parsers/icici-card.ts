@@ -0,0 +1,45 @@
+import { extractCardSummary, parseCardLine } from "./card-common";
+import { extractStatementHeader } from "./header";
+import type { DateContext } from "./common";
+import type { ParserTxn, StatementParser } from "./types";
+
+// Date | SerNo. | Transaction Details | Reward Points | Intl.# amount | Amount (in ₹)
+function parseIciciCardRows(text: string, dates?: DateContext): ParserTxn[] {
+  const lines = text
+    .split(/\r?\n/)
+    .map((l) => l.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+
+  const txns: ParserTxn[] = [];
+  let inTable = false;
+  for (const line of lines) {
+    if (/serno\.?/i.test(line) && /transaction details/i.test(line)) {
+      inTable = true;
+      continue;
+    }
+    if (!inTable) continue;
+    const txn = parseCardLine(line, { sourceParser: "icici-card-v1", hasSerialNo: true, hasRewardPoints: true }, dates);
+    if (txn) txns.push(txn);
+  }
+  return txns;
+}
+
+export const iciciCardParser: StatementParser = {
+  id: "icici-card-v1",
+  kind: "credit_card",
+  canParse(text) {
+    const l = text.toLowerCase();
+    const hasColumns = /serno\.?/.test(l) && l.includes("transaction details");
+    if (l.includes("icici bank") && l.includes("credit card") && hasColumns) return 0.95;
+    if (hasColumns) return 0.7;
+    if (l.includes("icici bank") && l.includes("credit card")) return 0.4;
+    return 0.05;
+  },
+  parse(text, dates) {
+    return parseIciciCardRows(text, dates);
+  },
+  summary: extractCardSummary,
+  header(text) {
+    return extractStatementHeader(text, "ICICI Bank");
+  },
+};
@@ -1,7 +1,9 @@
-import { DATE_TOKEN, inferCategory, parseAmountToken, toIsoDate } from "./common";
+import { amountTokens, DATE_TOKEN, inferCategory, toIsoDate, type DateContext } from "./common";
+import { extractStatementHeader } from "./header";
+import { tableToTxns } from "./layout";
 import type { ParserTxn, StatementParser } from "./types";
 
-function parseIciciRows(text: string): ParserTxn[] {
+function parseIciciRows(text: string, dates?: DateContext): ParserTxn[] {
   const lines = text
     .split(/\r?\n/)
     .map((l) => l.replace(/\s+/g, " ").trim())
@@ -15,15 +17,12 @@ function parseIciciRows(text: string): ParserTxn[] {
     const m = line.match(rowRe);
     if (!m) continue;
 
-    const date = toIsoDate(m[1]);
+    const date = toIsoDate(m[1], dates);
     const rest = m[2];
 
-    const amountMatches = Array.from(rest.matchAll(/-?\d[\d,]*\.\d{1,2}/g));
-    if (amountMatches.length < 2) continue;
-    const values = amountMatches
-      .map((a) => parseAmountToken(a[0]))
-      .filter((n): n is number => n !== null);
-    if (values.length < 2) continue;
+    const amounts = amountTokens(rest);
+    if (amounts.length < 2) continue;
+    const values = amounts.map((a) => a.value);
 
     // ICICI rows are typically: [withdrawal] [deposit] [balance] with blanks in one of first two.
     const balance = values[values.length - 1];
@@ -45,10 +44,7 @@ function parseIciciRows(text: string): ParserTxn[] {
       else withdrawal = Math.abs(prev1);
     }
 
-    const firstTailIndex =
-      amountMatches.length >= 3
-        ? (amountMatches[amountMatches.length - 3].index ?? rest.length)
-        : (amountMatches[amountMatches.length - 2].index ?? rest.length);
+    const firstTailIndex = amounts[Math.max(0, amounts.length - 3)].index;
     const description = rest.slice(0, firstTailIndex).replace(/\s+/g, " ").trim();
     if (!description || /transaction date|withdrawal amount|deposit amount|balance/i.test(description)) continue;
 
@@ -63,6 +59,7 @@ function parseIciciRows(text: string): ParserTxn[] {
       category: inferCategory(description),
       confidence: 0.86,
       sourceParser: "icici-v1",
+      balance,
     });
 
     prevBalance = balance;
@@ -79,7 +76,13 @@ export const iciciStatementParser: StatementParser = {
     if (l.includes("icici") && l.includes("withdrawal amount") && l.includes("deposit amount")) return 0.8;
     return 0.05;
   },
-  parse(text) {
-    return parseIciciRows(text);
+  parse(text, dates) {
+    return parseIciciRows(text, dates);
+  },
+  parseTable(table, dates) {
+    return tableToTxns(table, "icici-v1", 0.92, dates);
+  },
+  header(text) {
+    return extractStatementHeader(text, "ICICI Bank");
   },
 };
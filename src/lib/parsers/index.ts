@@ -1,25 +1,177 @@
+import type { ParserAttempt } from "@/lib/types/analyze";
+import { axisStatementParser } from "./axis";
+import { extractCardSummary } from "./card-common";
+import { isValidIsoDate, type DateContext } from "./common";
+import { diagnoseLines } from "./diagnostics";
 import { genericStatementParser } from "./generic";
+import { extractStatementHeader, statementDates } from "./header";
+import { hdfcCardParser } from "./hdfc-card";
+import { hdfcStatementParser } from "./hdfc";
+import { iciciCardParser } from "./icici-card";
 import { iciciStatementParser } from "./icici";
+import { detectStatementKind } from "./kind";
+import { detectTable, type PositionedLine, type PositionedTable } from "./layout";
+import { sbiStatementParser } from "./sbi";
+import { loadTemplateParsers } from "./template-store";
 import type { ParserRunResult, ParserTxn, StatementParser } from "./types";
 
-const PARSERS: StatementParser[] = [iciciStatementParser, genericStatementParser];
+const PARSERS: StatementParser[] = [
+  hdfcStatementParser,
+  sbiStatementParser,
+  axisStatementParser,
+  iciciStatementParser,
+  genericStatementParser,
+  iciciCardParser,
+  hdfcCardParser,
+];
+
+// Hand-written parsers plus the JSON bank templates. Templates go in front of
+// the generic fallback so an equal score goes to the bank-specific layout.
+function registry(): { parsers: StatementParser[]; warnings: string[] } {
+  const templates = loadTemplateParsers(PARSERS.map((p) => p.id));
+  const generic = PARSERS.indexOf(genericStatementParser);
+  return {
+    parsers: [...PARSERS.slice(0, generic), ...templates.parsers, ...PARSERS.slice(generic)],
+    warnings: templates.warnings,
+  };
+}
 
 function parserScore(txns: ParserTxn[], hint: number): number {
-  if (txns.length === 0) return hint * 5;
-  const avgConf = txns.reduce((s, t) => s + t.confidence, 0) / txns.length;
+  const avgConf = avgConfidence(txns);
+  if (avgConf === null) return hint * 5;
   return txns.length * (0.55 + avgConf * 0.45) + hint * 25;
 }
 
-export function runParserPipeline(text: string): ParserRunResult {
-  let best: ParserRunResult = { parserId: "none", score: 0, txns: [] };
+// Positioned rows know which column each amount sits in, so they win unless
+// the layout stage lost rows the text parser still finds.
+function parseWith(
+  parser: StatementParser,
+  text: string,
+  table: PositionedTable | null,
+  dates: DateContext
+): { txns: ParserTxn[]; rowsFrom: "text" | "layout" } {
+  const fromText = parser.parse(text, dates);
+  if (!table || !parser.parseTable) return { txns: fromText, rowsFrom: "text" };
+  const fromTable = parser.parseTable(table, dates);
+  return fromTable.length >= fromText.length
+    ? { txns: fromTable, rowsFrom: "layout" }
+    : { txns: fromText, rowsFrom: "text" };
+}
+
+// Rows whose date could not be read are left out and reported rather than
+// carried into the ledger with a made-up date.
+function checkDates(txns: ParserTxn[]): { txns: ParserTxn[]; warnings: string[] } {
+  const warnings: string[] = [];
+  const kept = txns.flatMap((t) => {
+    if (!isValidIsoDate(t.date)) {
+      warnings.push(`Unreadable date "${t.date}" on "${t.description}"; the row was left out.`);
+      return [];
+    }
+    if (t.valueDate && !isValidIsoDate(t.valueDate)) {
+      warnings.push(`Unreadable value date "${t.valueDate}" on "${t.description}"; it was dropped.`);
+      return [{ ...t, valueDate: undefined }];
+    }
+    return [t];
+  });
+  return { txns: kept, warnings };
+}
+
+function avgConfidence(txns: ParserTxn[]): number | null {
+  return txns.length ? txns.reduce((s, t) => s + t.confidence, 0) / txns.length : null;
+}
+
+// Every parser's outcome is pushed onto `attempts` for debug mode.
+type Best = { parser?: StatementParser; score: number; txns: ParserTxn[]; warnings: string[] };
 
-  for (const parser of PARSERS) {
+function bestOf(
+  parsers: StatementParser[],
+  text: string,
+  table: PositionedTable | null,
+  dates: DateContext,
+  attempts: ParserAttempt[]
+): Best {
+  let best: Best = { score: 0, txns: [], warnings: [] };
+
+  for (const parser of parsers) {
+    const kind = parser.kind ?? "savings";
     const hint = parser.canParse(text);
-    if (hint <= 0) continue;
-    const txns = parser.parse(text);
+    if (hint <= 0) {
+      attempts.push({ parserId: parser.id, kind, status: "declined", hint, score: 0, txnCount: 0, avgConfidence: null });
+      continue;
+    }
+    const parsed = parseWith(parser, text, table, dates);
+    const { txns, warnings } = checkDates(parsed.txns);
     const score = parserScore(txns, hint);
-    if (score > best.score) best = { parserId: parser.id, score, txns };
+    attempts.push({
+      parserId: parser.id,
+      kind,
+      status: "ran",
+      hint,
+      score,
+      txnCount: txns.length,
+      avgConfidence: avgConfidence(txns),
+      rowsFrom: parsed.rowsFrom,
+    });
+    if (score > best.score) best = { parser, score, txns, warnings };
   }
 
   return best;
 }
+
+// `lines` carries token positions when the source has them (text PDFs).
+// With `debug` the result also explains how the winner was picked.
+export function runParserPipeline(
+  text: string,
+  lines?: PositionedLine[],
+  opts: { debug?: boolean } = {}
+): ParserRunResult {
+  const detected = detectStatementKind(text);
+  const ofKind = (p: StatementParser) => (p.kind ?? "savings") === detected;
+  const table = lines ? detectTable(lines) : null;
+  const { parsers, warnings: templateWarnings } = registry();
+  const dates = statementDates(text);
+  const attempts: ParserAttempt[] = [];
+
+  let best = bestOf(parsers.filter(ofKind), text, table, dates, attempts);
+  // A misdetected kind should not cost the transactions; try the other family.
+  if (best.txns.length === 0) {
+    const fallback = bestOf(parsers.filter((p) => !ofKind(p)), text, table, dates, attempts);
+    if (fallback.txns.length > 0) best = fallback;
+  } else {
+    for (const p of parsers.filter((p) => !ofKind(p))) {
+      attempts.push({
+        parserId: p.id,
+        kind: p.kind ?? "savings",
+        status: "not_run",
+        hint: 0,
+        score: 0,
+        txnCount: 0,
+        avgConfidence: null,
+      });
+    }
+  }
+
+  const kind = best.parser?.kind ?? detected;
+  const card =
+    kind === "credit_card" ? (best.parser?.summary ?? extractCardSummary)(text) : undefined;
+  const statement = (best.parser?.header ?? extractStatementHeader)(text);
+  statement.accountType ??= kind === "credit_card" ? "Credit card" : undefined;
+
+  const parserId = best.parser?.id ?? "none";
+  const chosen = attempts.find((a) => a.parserId === parserId && a.status === "ran");
+  if (chosen) chosen.status = "chosen";
+  const diagnostics = opts.debug
+    ? { detectedKind: detected, attempts, ...diagnoseLines(text, best.txns, parserId) }
+    : undefined;
+
+  return {
+    parserId,
+    score: best.score,
+    txns: best.txns,
+    kind,
+    card,
+    statement,
+    warnings: [...templateWarnings, ...best.warnings],
+    diagnostics,
+  };
+}
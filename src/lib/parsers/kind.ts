@@ -0,0 +1,33 @@
+import type { StatementKind } from "@/lib/types/analyze";
+
+const CARD_SIGNALS: Array<[RegExp, number]> = [
+  [/credit card/, 2],
+  [/minimum (amount )?due|min\.? amount due/, 3],
+  [/total (amount )?dues?\b|total payment due/, 2],
+  [/payment due date/, 2],
+  [/(total |available )?credit limit/, 2],
+  [/reward points|payback points/, 1],
+  [/\b\d{4}\s?[x*]{4}\s?[x*]{4}\s?\d{4}\b/, 2],
+];
+
+const SAVINGS_SIGNALS: Array<[RegExp, number]> = [
+  [/withdrawal/, 2],
+  [/deposit/, 2],
+  [/value (date|dt)/, 2],
+  [/closing balance/, 1],
+  [/savings|current account/, 2],
+  [/\bifsc\b/, 1],
+];
+
+function score(text: string, signals: Array<[RegExp, number]>): number {
+  return signals.reduce((sum, [re, weight]) => sum + (re.test(text) ? weight : 0), 0);
+}
+
+// Card statements are recognised by their summary box (total/minimum due, due
+// date, credit limit) and masked card numbers rather than by any one phrase.
+export function detectStatementKind(text: string): StatementKind {
+  const l = text.toLowerCase();
+  const card = score(l, CARD_SIGNALS);
+  const savings = score(l, SAVINGS_SIGNALS);
+  return card >= 5 && card > savings ? "credit_card" : "savings";
+}
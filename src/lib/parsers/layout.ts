@@ -0,0 +1,234 @@
+import { guessRole, normalizeHeader, rowsToTxns, type ColumnMapping, type ColumnRole } from "@/lib/importers/columns";
+import type { DateContext } from "./common";
+import type { ParserTxn } from "./types";
+
+// Layout stage for text PDFs: tokens keep their page coordinates, the table
+// header's captions give the column boundaries and every row below is cut
+// into cells by x-position. A blank Withdrawal or Deposit cell stays blank
+// instead of shifting the next amount into its place.
+
+export type PositionedToken = {
+  str: string;
+  x: number; // left edge, PDF user space (y grows upwards)
+  y: number; // baseline
+  width: number;
+};
+
+export type PositionedLine = {
+  page: number;
+  y: number;
+  tokens: PositionedToken[]; // left to right
+};
+
+export type TableColumn = {
+  header: string;
+  role?: ColumnRole;
+  x0: number;
+  x1: number;
+};
+
+export type TableRow = {
+  page: number;
+  cells: Partial<Record<ColumnRole, string>>;
+};
+
+export type PositionedTable = {
+  columns: TableColumn[]; // from the first header found
+  rows: TableRow[];
+};
+
+const SAME_LINE_DY = 2.5;
+// Captions split into several tokens ("Withdrawal" "Amt.") are rejoined when
+// the horizontal gap is below this.
+const CAPTION_GAP = 4;
+const TEXT_ROLES: ColumnRole[] = ["description", "reference"];
+const ROLE_ORDER: ColumnRole[] = [
+  "date",
+  "valueDate",
+  "description",
+  "reference",
+  "withdrawal",
+  "deposit",
+  "amount",
+  "drCr",
+  "balance",
+];
+
+export function groupLines(tokens: PositionedToken[], page: number): PositionedLine[] {
+  const sorted = [...tokens].sort((a, b) => (Math.abs(b.y - a.y) > 1.5 ? b.y - a.y : a.x - b.x));
+  const lines: PositionedLine[] = [];
+  for (const t of sorted) {
+    const last = lines[lines.length - 1];
+    if (!last || Math.abs(last.y - t.y) > SAME_LINE_DY) lines.push({ page, y: t.y, tokens: [t] });
+    else last.tokens.push(t);
+  }
+  for (const line of lines) line.tokens.sort((a, b) => a.x - b.x);
+  return lines;
+}
+
+export function lineText(line: PositionedLine): string {
+  return line.tokens.map((t) => t.str).join(" ");
+}
+
+function right(t: PositionedToken): number {
+  // pdf.js reports width for text items; estimate it when missing.
+  return t.x + (t.width > 0 ? t.width : t.str.length * 5);
+}
+
+// Caption tokens from one or two header lines are merged when they overlap
+// horizontally (stacked "Value" / "Dt") or sit close together.
+function captions(lines: PositionedLine[]): TableColumn[] {
+  const tokens = lines.flatMap((l, li) => l.tokens.map((t) => ({ t, li }))).sort((a, b) => a.t.x - b.t.x);
+  const groups: Array<{ parts: typeof tokens; x0: number; x1: number }> = [];
+  for (const entry of tokens) {
+    const last = groups[groups.length - 1];
+    if (last && entry.t.x - last.x1 < CAPTION_GAP) {
+      last.parts.push(entry);
+      last.x1 = Math.max(last.x1, right(entry.t));
+    } else {
+      groups.push({ parts: [entry], x0: entry.t.x, x1: right(entry.t) });
+    }
+  }
+
+  const taken = new Set<ColumnRole>();
+  return groups.map((g) => {
+    const header = g.parts
+      .sort((a, b) => a.li - b.li || a.t.x - b.t.x)
+      .map((p) => p.t.str)
+      .join(" ");
+    const guessed = guessRole(normalizeHeader(header));
+    const role = guessed && !taken.has(guessed) ? guessed : undefined;
+    if (role) taken.add(role);
+    return { header, role, x0: g.x0, x1: g.x1 };
+  });
+}
+
+function isTableHeader(columns: TableColumn[]): boolean {
+  const roles = new Set(columns.map((c) => c.role));
+  const hasAmount = roles.has("withdrawal") || roles.has("deposit") || roles.has("amount");
+  return roles.has("date") && roles.has("description") && hasAmount;
+}
+
+function findHeader(lines: PositionedLine[]): { index: number; span: number; columns: TableColumn[] } | null {
+  for (let i = 0; i < lines.length; i++) {
+    const single = captions([lines[i]]);
+    if (isTableHeader(single)) {
+      // A second caption line directly below ("Amt." under "Withdrawal") belongs to it.
+      const next = lines[i + 1];
+      if (next && next.page === lines[i].page && lines[i].y - next.y < 14) {
+        const double = captions([lines[i], next]);
+        if (isTableHeader(double) && !looksLikeDataLine(next, double)) return { index: i, span: 2, columns: double };
+      }
+      return { index: i, span: 1, columns: single };
+    }
+    const next = lines[i + 1];
+    if (next && next.page === lines[i].page && lines[i].y - next.y < 14) {
+      const double = captions([lines[i], next]);
+      if (isTableHeader(double)) return { index: i, span: 2, columns: double };
+    }
+  }
+  return null;
+}
+
+// Column boundaries sit halfway between neighbouring captions.
+function cellsOf(line: PositionedLine, columns: TableColumn[]): Partial<Record<ColumnRole, string>> {
+  const cells: Partial<Record<ColumnRole, string>> = {};
+  for (const t of line.tokens) {
+    const center = (t.x + right(t)) / 2;
+    let idx = columns.findIndex((c, i) => {
+      const next = columns[i + 1];
+      return !next || center < (c.x1 + next.x0) / 2;
+    });
+    if (idx < 0) idx = columns.length - 1;
+    const role = columns[idx].role;
+    if (!role) continue;
+    cells[role] = cells[role] ? `${cells[role]} ${t.str}` : t.str;
+  }
+  return cells;
+}
+
+function hasDate(cell: string | undefined): boolean {
+  return (
+    !!cell &&
+    /\d{1,2}[/.\-\s][A-Za-z0-9]{2,9}[/.\-\s]\d{2,4}|\d{4}-\d{2}-\d{2}|^\d{1,2}[\s-][A-Za-z]{3,9}\.?$/.test(cell)
+  );
+}
+
+function looksLikeDataLine(line: PositionedLine, columns: TableColumn[]): boolean {
+  return hasDate(cellsOf(line, columns).date);
+}
+
+// Walk the lines page by page: rows start at a dated line; undated lines
+// directly below that only touch text columns continue its narration.
+// Pages without their own header reuse the previous page's columns.
+export function detectTable(lines: PositionedLine[]): PositionedTable | null {
+  const rows: TableRow[] = [];
+  let firstColumns: TableColumn[] | null = null;
+  let columns: TableColumn[] | null = null;
+  let current: { row: TableRow; y: number } | null = null;
+  let pitch = 12;
+
+  let i = 0;
+  while (i < lines.length) {
+    const page = lines[i].page;
+    const pageEnd = lines.findIndex((l, k) => k > i && l.page !== page);
+    const end = pageEnd < 0 ? lines.length : pageEnd;
+    const pageLines = lines.slice(i, end);
+
+    const header = findHeader(pageLines);
+    if (header) columns = header.columns;
+    firstColumns ??= columns;
+    current = null;
+
+    if (columns) {
+      for (const line of pageLines.slice(header ? header.index + header.span : 0)) {
+        const cells = cellsOf(line, columns);
+        if (hasDate(cells.date)) {
+          if (current) pitch = Math.min(24, Math.max(6, current.y - line.y));
+          current = { row: { page, cells }, y: line.y };
+          rows.push(current.row);
+          continue;
+        }
+        // An undated "Opening Balance" row still seeds the running balance.
+        if (/opening balance|balance b\/?f|brought forward/i.test(cells.description ?? "")) {
+          rows.push({ page, cells });
+          current = null;
+          continue;
+        }
+        const onlyText = (Object.keys(cells) as ColumnRole[]).every((r) => TEXT_ROLES.includes(r));
+        if (current && onlyText && current.y - line.y <= pitch * 2) {
+          for (const role of TEXT_ROLES) {
+            const extra = cells[role];
+            if (!extra) continue;
+            const prev = current.row.cells[role];
+            // Wrapped references and UPI handles continue without a space.
+            current.row.cells[role] = prev ? (/[-/]$/.test(prev) ? `${prev}${extra}` : `${prev} ${extra}`) : extra;
+          }
+          current.y = line.y;
+        } else {
+          current = null;
+        }
+      }
+    }
+    i = end;
+  }
+
+  if (!firstColumns || rows.length === 0) return null;
+  return { columns: firstColumns, rows };
+}
+
+// Positioned rows go through the same row logic as CSV and Excel imports.
+export function tableToTxns(
+  table: PositionedTable,
+  sourceParser: string,
+  confidence: number,
+  dates?: DateContext
+): ParserTxn[] {
+  const roles = ROLE_ORDER.filter((role) => table.rows.some((r) => r.cells[role] !== undefined));
+  const mapping: ColumnMapping = {};
+  roles.forEach((role, index) => (mapping[role] = index));
+  if (mapping.date === undefined || mapping.description === undefined) return [];
+
+  const grid = table.rows.map((r) => roles.map((role) => r.cells[role] ?? ""));
+  return rowsToTxns(grid, mapping, sourceParser, confidence, dates).txns;
+}
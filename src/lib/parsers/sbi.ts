@@ -0,0 +1,132 @@
+import {
+  amountTokens,
+  balanceValue,
+  DATE_TOKEN,
+  inferCategory,
+  signFromBalance,
+  toIsoDate,
+  type AmountToken,
+  type DateContext,
+} from "./common";
+import { extractStatementHeader } from "./header";
+import { tableToTxns } from "./layout";
+import type { ParserTxn, StatementParser } from "./types";
+
+// Txn Date | Value Date | Description | Ref No./Cheque No. | Debit | Credit | Balance
+const rowRe = new RegExp(`^(${DATE_TOKEN})\\s+(${DATE_TOKEN})\\s+(.*)$`);
+
+function isColumnHeader(line: string): boolean {
+  const l = line.toLowerCase();
+  return l.includes("txn date") && l.includes("value date") && l.includes("description") && l.includes("balance");
+}
+
+function isPageNoise(line: string): boolean {
+  return /^(page \d+|please do not share|\*+\s*this is a computer generated|this is a computer generated|state bank of india|account statement from)/i.test(
+    line
+  );
+}
+
+// "Balance as on 1 Apr 2023 : 10,000.00" in the account summary block.
+function openingBalance(text: string): number | null {
+  const m = text.match(/balance as on\s+[^:\n]*:[^\S\n]*([^\n]*)/i);
+  const first = m ? amountTokens(m[1])[0] : undefined;
+  return first && first.index === 0 ? balanceValue(first) : null;
+}
+
+type SbiRow = {
+  date: string;
+  description: string;
+  amounts: AmountToken[];
+};
+
+function parseSbiRows(text: string, dates?: DateContext): ParserTxn[] {
+  const lines = text
+    .split(/\r?\n/)
+    .map((l) => l.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+
+  const rows: SbiRow[] = [];
+  let inTable = false;
+  let current: SbiRow | null = null;
+
+  for (const line of lines) {
+    if (isColumnHeader(line)) {
+      inTable = true;
+      continue;
+    }
+    if (!inTable || isPageNoise(line)) continue;
+
+    const m = line.match(rowRe);
+    if (m) {
+      if (current) rows.push(current);
+      const rest = m[3];
+      const amounts = amountTokens(rest);
+      const tailStart = amounts.length ? amounts[Math.max(0, amounts.length - 3)].index : rest.length;
+      // The Ref No./Cheque No. column sits between description and amounts;
+      // SBI prints "-" or a transfer reference there, both kept in the text.
+      const description = rest.slice(0, tailStart).replace(/\s+-\s*$/, "").trim();
+      current = { date: toIsoDate(m[1], dates), description, amounts };
+      continue;
+    }
+
+    // SBI wraps long descriptions over several lines below the dated row.
+    if (current) current.description = `${current.description} ${line}`.trim();
+  }
+  if (current) rows.push(current);
+
+  const txns: ParserTxn[] = [];
+  let prevBalance = openingBalance(text);
+
+  for (const r of rows) {
+    // Debit and credit cells are plain amounts; only the balance carries Cr/Dr.
+    const amounts = r.amounts.slice(-3);
+    if (amounts.length < 2) continue;
+    const balance = balanceValue(amounts[amounts.length - 1]);
+    const values = amounts.slice(0, -1).map(balanceValue);
+
+    let amount: number;
+    let confidence = 0.9;
+    if (values.length === 2) {
+      amount = values[1] - values[0];
+    } else {
+      ({ amount, confidence } = signFromBalance(Math.abs(values[0]), balance, prevBalance, r.description));
+    }
+    prevBalance = balance;
+
+    txns.push({
+      date: r.date,
+      description: r.description,
+      amount,
+      drCr: amount >= 0 ? "CR" : "DR",
+      currency: "INR",
+      category: inferCategory(r.description),
+      confidence,
+      sourceParser: "sbi-v1",
+      balance,
+    });
+  }
+
+  return txns;
+}
+
+export const sbiStatementParser: StatementParser = {
+  id: "sbi-v1",
+  canParse(text) {
+    const l = text.toLowerCase();
+    const hasColumns = l.includes("txn date") && l.includes("ref no./cheque no.");
+    if ((l.includes("state bank of india") || l.includes("sbin0")) && hasColumns) return 0.97;
+    if (hasColumns && l.includes("debit") && l.includes("credit")) return 0.8;
+    if (l.includes("state bank of india")) return 0.3;
+    return 0.03;
+  },
+  parse(text, dates) {
+    return parseSbiRows(text, dates);
+  },
+  parseTable(table, dates) {
+    return tableToTxns(table, "sbi-v1", 0.95, dates);
+  },
+  header(text) {
+    const header = extractStatementHeader(text, "State Bank of India");
+    return { ...header, openingBalance: openingBalance(text) ?? header.openingBalance };
+  },
+};
@@ -0,0 +1,219 @@
+import { createHash } from "node:crypto";
+import type { ColumnRole } from "@/lib/importers/columns";
+import type { TeachRequest, TeachRole, TeachSample } from "@/lib/types/analyze";
+import { extractStatementHeader } from "./header";
+import { detectStatementKind } from "./kind";
+import { TemplateError, templateParser, validateTemplate, type BankTemplate } from "./template";
+import type { ParserTxn } from "./types";
+
+// Enough lines to cover the header block and the first page of rows.
+const SAMPLE_LINES = 150;
+// Under the built-in bank parsers' match on their own bank (0.95 and up), so a
+// taught layout never takes a supported bank's statements from its parser, but
+// over the generic fallback.
+const LEARNED_SCORE = 0.9;
+
+const MONEY_COLUMNS: Partial<Record<TeachRole, ColumnRole>> = {
+  debit: "withdrawal",
+  credit: "deposit",
+  amount: "amount",
+  balance: "balance",
+};
+
+export function teachSample(text: string): TeachSample {
+  const lines = text
+    .split(/\r?\n/)
+    .map((l) => l.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+  return { lines: lines.slice(0, SAMPLE_LINES) };
+}
+
+function dayPart(raw: string): string {
+  return raw.length === 2 ? "DD" : "D";
+}
+
+function monthPart(raw: string): string {
+  return raw.length === 2 ? "MM" : "M";
+}
+
+// The marked date token(s) as a template dateFormat. Numeric dates are read
+// day first, as Indian banks print them, unless the second number cannot be
+// a month.
+export function dateFormatOf(raw: string): string | null {
+  const iso = raw.match(/^(\d{4})([./-])(\d{1,2})\2(\d{1,2})$/);
+  if (iso) return `YYYY${iso[2]}${monthPart(iso[3])}${iso[2]}${dayPart(iso[4])}`;
+
+  const numeric = raw.match(/^(\d{1,2})([./-])(\d{1,2})\2(\d{2}|\d{4})$/);
+  if (numeric) {
+    const [, a, sep, b, y] = numeric;
+    const year = y.length === 4 ? "YYYY" : "YY";
+    if (Number(b) > 12 && Number(a) <= 12) return `${monthPart(a)}${sep}${dayPart(b)}${sep}${year}`;
+    return `${dayPart(a)}${sep}${monthPart(b)}${sep}${year}`;
+  }
+
+  const named = raw.match(/^(\d{1,2})([\s-])[A-Za-z]{3,9}\2(\d{2}|\d{4})$/);
+  if (named) return `${dayPart(named[1])}${named[2]}MMM${named[2]}${named[3].length === 4 ? "YYYY" : "YY"}`;
+
+  const monthFirst = raw.match(/^[A-Za-z]{3,9} (\d{1,2}), (\d{4})$/);
+  if (monthFirst) return `MMM ${dayPart(monthFirst[1])}, YYYY`;
+  return null;
+}
+
+function headerWords(headerLine: string): string[] {
+  const words = headerLine
+    .toLowerCase()
+    .split(/\s+/)
+    .filter((w) => /[a-z]{2,}/.test(w));
+  return Array.from(new Set(words));
+}
+
+// What marks a statement as coming from its bank: the IFSC prefix ("sbin0"),
+// or else the bank's name as printed. Column captions such as "date" and
+// "balance" are on every bank's statement and recognise nothing.
+function bankToken(text: string): string | undefined {
+  const header = extractStatementHeader(text);
+  if (header.ifsc) return header.ifsc.slice(0, 5).toLowerCase();
+  const name = header.bankName?.toLowerCase();
+  return name && text.toLowerCase().includes(name) ? name : undefined;
+}
+
+// Learned templates are keyed by the bank and the header captions: the same
+// bank layout prints the same column header line, so re-teaching it replaces
+// the file.
+export function learnedTemplateFile(headerLine: string, bank = ""): string {
+  const key = createHash("sha1")
+    .update([bank, ...headerWords(headerLine)].join(" "))
+    .digest("hex")
+    .slice(0, 10);
+  return `learned-${key}.json`;
+}
+
+type Run = { role: TeachRole; text: string; start: number; end: number };
+
+// Turns a clicked header line and one marked transaction line into a bank
+// template. Column order comes from the marked token positions; a blank
+// Withdrawal/Deposit cell in the sample is filled in the usual order (debit
+// before credit).
+export function templateFromSample(req: TeachRequest): { template: BankTemplate; file: string } {
+  const text = req.lines.join("\n");
+  const bank = bankToken(text);
+  const file = learnedTemplateFile(req.headerLine, bank);
+  const problems: string[] = [];
+  if (!bank) problems.push("the statement shows no IFSC code or bank name to recognise it by");
+  const tokens = req.sampleLine.trim().split(/\s+/);
+  if (req.roles.length !== tokens.length) {
+    throw new TemplateError(file, [`expected ${tokens.length} token roles, got ${req.roles.length}`]);
+  }
+
+  const runs: Run[] = [];
+  tokens.forEach((text, i) => {
+    const role = req.roles[i];
+    if (!role) return;
+    const last = runs[runs.length - 1];
+    // Money cells are single tokens; only date and text runs span several.
+    if (last && last.role === role && last.end === i - 1 && !MONEY_COLUMNS[role]) {
+      last.text += ` ${text}`;
+      last.end = i;
+    } else {
+      runs.push({ role, text, start: i, end: i });
+    }
+  });
+
+  const dates = runs.filter((r) => r.role === "date");
+  if (dates.length === 0 || dates[0].start !== 0) problems.push("the transaction line must start with a marked date");
+  if (dates.length > 2) problems.push("mark at most two dates (transaction and value date)");
+  if (dates[1] && dates[1].start !== dates[0].end + 1) {
+    problems.push("a value date must directly follow the transaction date");
+  }
+  const dateFormat = dates[0] ? dateFormatOf(dates[0].text) : null;
+  if (dates[0] && !dateFormat) problems.push(`could not read the date format of "${dates[0].text}"`);
+
+  if (!runs.some((r) => r.role === "description")) problems.push("mark the description");
+  const money = runs.filter((r) => MONEY_COLUMNS[r.role]);
+  const roles = money.map((r) => r.role);
+  if (money.length === 0) problems.push("mark the debit, credit or amount token");
+  if (new Set(roles).size !== roles.length) problems.push("each of debit, credit, amount and balance can be marked once");
+  const split = roles.includes("debit") || roles.includes("credit");
+  if (split && roles.includes("amount")) problems.push("mark either debit/credit or a single amount, not both");
+  if (problems.length > 0) throw new TemplateError(file, problems);
+
+  const moneyColumns = money.map((r) => MONEY_COLUMNS[r.role]!);
+  if (split && !moneyColumns.includes("deposit")) {
+    moneyColumns.splice(moneyColumns.indexOf("withdrawal") + 1, 0, "deposit");
+  } else if (split && !moneyColumns.includes("withdrawal")) {
+    moneyColumns.splice(moneyColumns.indexOf("deposit"), 0, "withdrawal");
+  }
+
+  // An unsigned amount says nothing about its direction; only the balance can.
+  const amountToken = money.find((r) => r.role === "amount")?.text ?? "";
+  const amountSign: BankTemplate["amountSign"] = split
+    ? "columns"
+    : /(cr|dr)\)?\.?$/i.test(amountToken)
+      ? "drcr"
+      : /^[-(]/.test(amountToken)
+        ? "signed"
+        : "balance";
+  if (amountSign === "balance" && !roles.includes("balance")) {
+    throw new TemplateError(file, [
+      "an unsigned amount needs the balance marked too, to tell debits from credits; " +
+        "or pick a line whose amount is printed negative",
+    ]);
+  }
+
+  const words = headerWords(req.headerLine);
+  const bankName = extractStatementHeader(text).bankName;
+  const raw: BankTemplate = {
+    id: file.replace(/\.json$/, ""),
+    bank: bankName ?? "Learned layout",
+    kind: detectStatementKind(text),
+    // The whole caption line, not its words, so only this layout's header matches.
+    fingerprint: { all: [bank!, req.headerLine.toLowerCase().replace(/\s+/g, " ").trim()], score: LEARNED_SCORE },
+    headerPhrases: words,
+    columns: [
+      "date",
+      ...(dates.length > 1 ? (["valueDate"] as ColumnRole[]) : []),
+      "description",
+      ...moneyColumns,
+    ],
+    dateFormat: dateFormat!,
+    amountSign,
+    continuation: "append",
+    skipLines: ["^page\\s*(?:no\\.?)?\\s*:?\\s*\\d+"],
+    stopLines: ["^(?:statement |account )?summary\\b", "^\\**\\s*end of statement"],
+  };
+  return { template: validateTemplate(raw, file), file };
+}
+
+// The direction the marks give the sample line: the column it sits in, its
+// Dr/Cr marker or its printed sign. Undefined for an unsigned amount.
+function markedDirection(req: TeachRequest): "DR" | "CR" | undefined {
+  const tokens = req.sampleLine.trim().split(/\s+/);
+  if (req.roles.includes("debit") !== req.roles.includes("credit")) return req.roles.includes("debit") ? "DR" : "CR";
+  const amount = tokens[req.roles.indexOf("amount")] ?? "";
+  const marker = amount.match(/(cr|dr)\)?\.?$/i);
+  if (marker) return marker[1].toUpperCase() as "DR" | "CR";
+  return /^[-(]/.test(amount) ? "DR" : undefined;
+}
+
+// Whether a built template reads directions the way the statement shows them:
+// the sample line as marked, and every row against the running balance. A row
+// whose amount only fits the balance movement with the opposite sign was read
+// the wrong way round.
+export function directionProblems(template: BankTemplate, req: TeachRequest, txns: ParserTxn[]): string[] {
+  const problems: string[] = [];
+  const expected = markedDirection(req);
+  const sample = templateParser(template).parse(`${req.headerLine}\n${req.sampleLine}`)[0];
+  if (expected && sample && sample.drCr !== expected) {
+    problems.push(`the marked line reads as ${sample.drCr === "DR" ? "a debit" : "a credit"}, not as marked`);
+  }
+
+  let flipped = 0;
+  for (let i = 1; i < txns.length; i++) {
+    const { balance: prev } = txns[i - 1];
+    const { balance, amount } = txns[i];
+    if (prev === undefined || balance === undefined) continue;
+    if (Math.abs(prev + amount - balance) >= 0.01 && Math.abs(prev - amount - balance) < 0.01) flipped++;
+  }
+  if (flipped > 0) problems.push(`${flipped} transaction(s) read with the opposite sign to the running balance`);
+  return problems;
+}
@@ -0,0 +1,93 @@
+import { mkdirSync, readdirSync, readFileSync, statSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { TemplateError, templateParser, validateTemplate, type BankTemplate } from "./template";
+import type { StatementParser } from "./types";
+
+// Bank templates are the *.json files in two directories: the ones shipped
+// with the app (BANK_TEMPLATE_DIR can point at another copy, e.g. a mounted
+// volume analysts edit), and the ones users taught, kept in a data directory
+// outside the source tree. Only the latter is ever written to.
+export const TEMPLATE_DIR =
+  process.env.BANK_TEMPLATE_DIR ?? path.join(process.cwd(), "src", "lib", "parsers", "bank-templates");
+export const LEARNED_TEMPLATE_DIR =
+  process.env.LEARNED_TEMPLATE_DIR ?? path.join(process.cwd(), "data", "bank-templates");
+
+export type TemplateLoad = {
+  parsers: StatementParser[];
+  warnings: string[]; // one per file that was skipped
+};
+
+// Files changed by hand are picked up within this long; a template saved
+// through saveTemplate() is live on the next upload.
+const RELOAD_INTERVAL_MS = 30_000;
+
+type TemplateCache = { key: string; load: TemplateLoad; checkedAt: number };
+
+// Held on globalThis because each API route is bundled with its own copy of
+// this module: a save in one route has to reach the parser run by another.
+const shared = globalThis as typeof globalThis & { bankTemplateCache?: TemplateCache | null };
+
+function templateFiles(dir: string): string[] {
+  try {
+    return readdirSync(dir)
+      .filter((f) => f.toLowerCase().endsWith(".json"))
+      .sort()
+      .map((f) => path.join(dir, f));
+  } catch {
+    return [];
+  }
+}
+
+function readTemplate(filePath: string, ids: Set<string>): StatementParser {
+  const file = path.basename(filePath);
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(filePath, "utf8"));
+  } catch (err: unknown) {
+    throw new TemplateError(file, [`not valid JSON (${err instanceof Error ? err.message : String(err)})`]);
+  }
+  const template = validateTemplate(raw, file);
+  if (ids.has(template.id)) throw new TemplateError(file, [`id "${template.id}" is already used by another parser`]);
+  ids.add(template.id);
+  return templateParser(template);
+}
+
+// The directories are looked at again at most every RELOAD_INTERVAL_MS, and
+// the files re-read only when one was added, removed or edited, so templates
+// change without a restart. A broken file is skipped with a warning; the other
+// parsers still run.
+export function loadTemplateParsers(reserved: string[] = []): TemplateLoad {
+  const cache = shared.bankTemplateCache;
+  const now = Date.now();
+  if (cache && now - cache.checkedAt < RELOAD_INTERVAL_MS) return cache.load;
+
+  // Shipped templates first, so a learned one cannot take over a shipped id.
+  const files = [...templateFiles(TEMPLATE_DIR), ...templateFiles(LEARNED_TEMPLATE_DIR)];
+  const key = files.map((f) => `${f}:${statSync(f).mtimeMs}`).join("|");
+  if (cache?.key === key) {
+    cache.checkedAt = now;
+    return cache.load;
+  }
+
+  const ids = new Set(reserved);
+  const load: TemplateLoad = { parsers: [], warnings: [] };
+  for (const file of files) {
+    try {
+      load.parsers.push(readTemplate(file, ids));
+    } catch (err: unknown) {
+      if (!(err instanceof TemplateError)) throw err;
+      load.warnings.push(`${err.message}; it was skipped.`);
+    }
+  }
+
+  shared.bankTemplateCache = { key, load, checkedAt: now };
+  return load;
+}
+
+// Writes (or replaces) one learned template file and drops the loaded set, so
+// the next loadTemplateParsers() call reads it.
+export function saveTemplate(template: BankTemplate, file: string): void {
+  mkdirSync(LEARNED_TEMPLATE_DIR, { recursive: true });
+  writeFileSync(path.join(LEARNED_TEMPLATE_DIR, file), `${JSON.stringify(template, null, 2)}\n`, "utf8");
+  shared.bankTemplateCache = null;
+}
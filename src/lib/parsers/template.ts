@@ -0,0 +1,404 @@
+import type { ColumnRole } from "@/lib/importers/columns";
+import type { StatementKind } from "@/lib/types/analyze";
+import { amountTokens, parseAmount, parseBalanceToken, parseDate, type DateContext } from "./common";
+import { extractStatementHeader } from "./header";
+import { tableToTxns, type TableRow } from "./layout";
+import type { ParserTxn, StatementParser } from "./types";
+
+// Declarative layout of a text statement, stored as JSON so a bank can be
+// added without a parser module. A row is a dated line: the leading date
+// columns come first, the amount columns are read from the end of the line
+// and whatever is left in between is the narration.
+export type BankTemplate = {
+  id: string;
+  bank: string;
+  kind?: StatementKind; // defaults to "savings"
+  fingerprint: {
+    all: string[]; // phrases that must all appear (case-insensitive)
+    any?: string[]; // at least one of these must appear too
+    score?: number; // canParse() result on a match, default 0.95
+  };
+  headerPhrases: string[]; // a line containing all of these starts (or resumes) the table
+  columns: ColumnRole[]; // left to right
+  dateFormat: string; // e.g. "DD/MM/YYYY", "DD-MMM-YY", "YYYY-MM-DD"; "DD MMM" takes the year from the period
+  // How a row's money columns read:
+  //   columns  separate withdrawal and deposit columns, one of them blank
+  //   drcr     one amount column carrying a Dr/Cr marker (suffix or own column)
+  //   signed   one amount column, debits negative or in parentheses
+  //   balance  one unsigned amount column; the running balance gives the direction
+  amountSign: "columns" | "drcr" | "signed" | "balance";
+  continuation?: "append" | "ignore"; // undated lines below a row; default "append"
+  skipLines?: string[]; // regexes (case-insensitive) for page furniture inside the table
+  stopLines?: string[]; // regexes for the line that ends the table, e.g. a summary block
+  confidence?: number; // default 0.9
+};
+
+// Raised when a template file does not describe a usable layout. `problems`
+// lists every field that failed, each prefixed with its JSON path.
+export class TemplateError extends Error {
+  readonly source: string;
+  readonly problems: string[];
+
+  constructor(source: string, problems: string[]) {
+    super(`Bank template ${source} is invalid: ${problems.join("; ")}`);
+    this.name = "TemplateError";
+    this.source = source;
+    this.problems = problems;
+  }
+}
+
+const ROLES: ColumnRole[] = [
+  "date",
+  "valueDate",
+  "description",
+  "reference",
+  "withdrawal",
+  "deposit",
+  "amount",
+  "drCr",
+  "balance",
+];
+const MONEY_ROLES: ColumnRole[] = ["withdrawal", "deposit", "amount", "balance"];
+const LEADING_ROLES: ColumnRole[] = ["date", "valueDate"];
+const AMOUNT_SIGNS = ["columns", "drcr", "signed", "balance"] as const;
+const KINDS: StatementKind[] = ["savings", "credit_card"];
+const DATE_PARTS = /YYYY|YY|MMM|MM|M|DD|D/g;
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const OPENING_RE = /opening balance|balance b\/?f|brought forward/i;
+
+type DateMatcher = { pattern: string; toIso: (raw: string, dates?: DateContext) => string | null };
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function literalPattern(literal: string): string {
+  return literal.split(/\s+/).map(escapeRegex).join("\\s+");
+}
+
+function partPattern(part: string): string {
+  if (part === "YYYY") return "\\d{4}";
+  if (part === "MMM") return "[A-Za-z]{3,9}";
+  return part.length === 2 ? "\\d{2}" : "\\d{1,2}";
+}
+
+// "DD-MMM-YYYY" -> a pattern for finding such dates in a line, and a
+// converter that reads the parts back by position.
+function dateMatcher(format: string): DateMatcher {
+  const parts: string[] = [];
+  let pattern = "";
+  let capturing = "";
+  let last = 0;
+  for (const m of format.matchAll(DATE_PARTS)) {
+    const literal = literalPattern(format.slice(last, m.index));
+    parts.push(m[0]);
+    pattern += `${literal}${partPattern(m[0])}`;
+    capturing += `${literal}(${partPattern(m[0])})`;
+    last = (m.index ?? 0) + m[0].length;
+  }
+  pattern += literalPattern(format.slice(last));
+  capturing += literalPattern(format.slice(last));
+
+  const exact = new RegExp(`^${capturing}$`);
+  return {
+    pattern,
+    toIso(raw, dates) {
+      const m = raw.match(exact);
+      if (!m) return null;
+      let year = 0;
+      let month = 0;
+      let day = 0;
+      parts.forEach((part, i) => {
+        const value = m[i + 1];
+        if (part === "YYYY") year = Number(value);
+        else if (part === "YY") year = Number(value) + (Number(value) >= 70 ? 1900 : 2000);
+        else if (part === "MMM") month = MONTHS.indexOf(value.slice(0, 3).toLowerCase()) + 1;
+        else if (part.startsWith("M")) month = Number(value);
+        else day = Number(value);
+      });
+      if (month < 1) return null;
+      // parseDate checks the calendar and fills a missing year from the period.
+      return year
+        ? parseDate(`${year}-${month}-${day}`)
+        : parseDate(`${day}/${month}`, { ...dates, order: "dmy" });
+    },
+  };
+}
+
+// ---------------- validation ----------------
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string" && v.trim().length > 0);
+}
+
+function checkRegexList(value: unknown, field: string, problems: string[]): void {
+  if (value === undefined) return;
+  if (!isStringList(value)) {
+    problems.push(`${field} must be a list of regular expressions`);
+    return;
+  }
+  value.forEach((re, i) => {
+    try {
+      new RegExp(re, "i");
+    } catch (err: unknown) {
+      problems.push(`${field}[${i}] is not a valid regular expression (${err instanceof Error ? err.message : re})`);
+    }
+  });
+}
+
+// Checks a parsed JSON value field by field and reports every problem at
+// once, so a template can be fixed in one pass.
+export function validateTemplate(raw: unknown, source: string): BankTemplate {
+  const problems: string[] = [];
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) throw new TemplateError(source, ["expected a JSON object"]);
+  const t = raw as Record<string, unknown>;
+
+  if (typeof t.id !== "string" || !/^[a-z0-9][a-z0-9-]*$/.test(t.id)) {
+    problems.push("id must be a lowercase slug such as \"kotak-v1\"");
+  }
+  if (typeof t.bank !== "string" || !t.bank.trim()) problems.push("bank must be a non-empty string");
+  if (t.kind !== undefined && !KINDS.includes(t.kind as StatementKind)) {
+    problems.push(`kind must be one of ${KINDS.join(", ")}`);
+  }
+
+  const fp = t.fingerprint as Record<string, unknown> | undefined;
+  if (!fp || typeof fp !== "object") {
+    problems.push("fingerprint is required");
+  } else {
+    if (!isStringList(fp.all) || fp.all.length === 0) problems.push("fingerprint.all must list at least one phrase");
+    if (fp.any !== undefined && !isStringList(fp.any)) problems.push("fingerprint.any must be a list of phrases");
+    if (fp.score !== undefined && (typeof fp.score !== "number" || fp.score <= 0 || fp.score > 1)) {
+      problems.push("fingerprint.score must be a number in (0, 1]");
+    }
+  }
+
+  if (!isStringList(t.headerPhrases) || t.headerPhrases.length === 0) {
+    problems.push("headerPhrases must list at least one phrase of the column header line");
+  }
+
+  const columns = Array.isArray(t.columns) ? (t.columns as unknown[]) : null;
+  if (!columns || columns.length === 0) {
+    problems.push("columns must list the column roles left to right");
+  } else {
+    columns.forEach((c, i) => {
+      if (!ROLES.includes(c as ColumnRole)) problems.push(`columns[${i}] "${String(c)}" is not one of ${ROLES.join(", ")}`);
+    });
+    const roles = columns as ColumnRole[];
+    const seen = new Set<ColumnRole>();
+    roles.forEach((r, i) => {
+      if (seen.has(r)) problems.push(`columns[${i}] repeats "${r}"`);
+      seen.add(r);
+    });
+    if (!seen.has("date")) problems.push("columns must include \"date\"");
+    if (!seen.has("description")) problems.push("columns must include \"description\"");
+    const descAt = roles.indexOf("description");
+    roles.forEach((r, i) => {
+      if (descAt >= 0 && LEADING_ROLES.includes(r) && i > descAt) {
+        problems.push(`columns[${i}] "${r}" must come before "description"`);
+      }
+      if (descAt >= 0 && MONEY_ROLES.includes(r) && i < descAt) {
+        problems.push(`columns[${i}] "${r}" must come after "description"`);
+      }
+    });
+
+    const sign = t.amountSign;
+    if (!AMOUNT_SIGNS.includes(sign as BankTemplate["amountSign"])) {
+      problems.push(`amountSign must be one of ${AMOUNT_SIGNS.join(", ")}`);
+    } else if (sign === "columns" && !(seen.has("withdrawal") && seen.has("deposit"))) {
+      problems.push("amountSign \"columns\" needs both \"withdrawal\" and \"deposit\" columns");
+    } else if (sign !== "columns" && !seen.has("amount")) {
+      problems.push(`amountSign "${String(sign)}" needs an "amount" column`);
+    }
+    if (sign === "balance" && !seen.has("balance")) problems.push("amountSign \"balance\" needs a \"balance\" column");
+  }
+
+  if (typeof t.dateFormat !== "string") {
+    problems.push("dateFormat is required, e.g. \"DD/MM/YYYY\"");
+  } else {
+    const parts = t.dateFormat.match(DATE_PARTS) ?? [];
+    const has = (p: RegExp) => parts.some((x) => p.test(x));
+    if (!has(/^D{1,2}$/) || !has(/^M{1,3}$/)) {
+      problems.push(`dateFormat "${t.dateFormat}" needs day (DD) and month (MM or MMM) parts`);
+    }
+  }
+
+  if (t.continuation !== undefined && t.continuation !== "append" && t.continuation !== "ignore") {
+    problems.push("continuation must be \"append\" or \"ignore\"");
+  }
+  checkRegexList(t.skipLines, "skipLines", problems);
+  checkRegexList(t.stopLines, "stopLines", problems);
+  if (t.confidence !== undefined && (typeof t.confidence !== "number" || t.confidence <= 0 || t.confidence > 1)) {
+    problems.push("confidence must be a number in (0, 1]");
+  }
+
+  if (problems.length > 0) throw new TemplateError(source, problems);
+  return t as BankTemplate;
+}
+
+// ---------------- interpreter ----------------
+
+function splitRow(rest: string, template: BankTemplate): Partial<Record<ColumnRole, string>> {
+  const cells: Partial<Record<ColumnRole, string>> = {};
+  const descAt = template.columns.indexOf("description");
+  const moneyRoles = template.columns.slice(descAt + 1).filter((r) => MONEY_ROLES.includes(r));
+  // Cells keep the amount as printed ("(1,234.00)", "1,234.00(Dr)"); the
+  // shared cell parser reads signs and markers.
+  const tail = amountTokens(rest).slice(-moneyRoles.length);
+
+  if (tail.length === moneyRoles.length) {
+    moneyRoles.forEach((role, i) => (cells[role] = tail[i].raw));
+  } else if (tail.length > 0) {
+    const values = tail.map((a) => a.raw);
+    if (template.amountSign === "columns" && moneyRoles.includes("balance")) {
+      // A blank Withdrawal/Deposit cell leaves one amount before the balance;
+      // its direction then comes from the balance movement.
+      cells.balance = values.pop();
+      if (values.length > 0) cells.amount = values[values.length - 1];
+    } else {
+      values.forEach((v, i) => (cells[moneyRoles[i]] = v));
+    }
+  }
+
+  let text = rest.slice(0, tail[0]?.index ?? rest.length).trim();
+  const drCr = text.match(/\s(Cr|Dr)\.?$/i);
+  if (template.columns.includes("drCr") && drCr) {
+    cells.drCr = drCr[1];
+    text = text.slice(0, drCr.index).trim();
+  }
+  if (template.columns.includes("reference")) {
+    const ref = text.match(/\s([A-Za-z0-9/-]*\d[A-Za-z0-9/-]*)$/);
+    if (ref && ref[1].length >= 6) {
+      cells.reference = ref[1];
+      text = text.slice(0, ref.index).trim();
+    }
+  }
+  cells.description = text;
+  return cells;
+}
+
+function templateRows(text: string, template: BankTemplate, dates?: DateContext): TableRow[] {
+  const lines = text
+    .split(/\r?\n/)
+    .map((l) => l.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+  const date = dateMatcher(template.dateFormat);
+  const leading = template.columns.filter((r) => LEADING_ROLES.includes(r));
+  const rowRe = new RegExp(`^${leading.map(() => `(${date.pattern})`).join("\\s+")}\\s+(.*)$`);
+  const phrases = template.headerPhrases.map((p) => p.toLowerCase());
+  const skip = (template.skipLines ?? []).map((re) => new RegExp(re, "i"));
+  const stop = (template.stopLines ?? []).map((re) => new RegExp(re, "i"));
+
+  const rows: TableRow[] = [];
+  let inTable = false;
+  let current: TableRow | null = null;
+
+  for (const line of lines) {
+    const lower = line.toLowerCase();
+    if (phrases.every((p) => lower.includes(p))) {
+      inTable = true;
+      current = null;
+      continue;
+    }
+    if (!inTable) continue;
+    if (stop.some((re) => re.test(line))) break;
+    if (skip.some((re) => re.test(line))) {
+      current = null;
+      continue;
+    }
+
+    const m = line.match(rowRe);
+    const isoDates = m ? leading.map((_, i) => date.toIso(m[i + 1], dates)) : [];
+    if (m && isoDates.every(Boolean)) {
+      const cells = splitRow(m[leading.length + 1], template);
+      leading.forEach((role, i) => (cells[role] = isoDates[i]!));
+      current = { page: 1, cells };
+      rows.push(current);
+      continue;
+    }
+
+    if (OPENING_RE.test(line)) {
+      const last = amountTokens(line).pop();
+      if (last) rows.push({ page: 1, cells: { description: line, balance: last.raw } });
+      current = null;
+      continue;
+    }
+
+    if (current && (template.continuation ?? "append") === "append") {
+      const prev = current.cells.description ?? "";
+      current.cells.description = prev ? (/[-/]$/.test(prev) ? `${prev}${line}` : `${prev} ${line}`) : line;
+    }
+  }
+  return rows;
+}
+
+// The direction of a single-amount row by the template's declared rule: the
+// sign as printed, the Cr/Dr marker, or the running-balance movement. The row
+// then carries a withdrawal or deposit cell, so the shared row reader never
+// falls back to guessing from narration keywords. A row the rule cannot settle
+// (no marker; no earlier balance to compare with) is left as it is.
+function applyAmountSign(rows: TableRow[], rule: BankTemplate["amountSign"]): TableRow[] {
+  if (rule === "columns") return rows;
+  let prevBalance: number | null = null;
+  return rows.map((row) => {
+    const balance = row.cells.balance ? parseBalanceToken(row.cells.balance) : null;
+    const amount = row.cells.amount ? parseAmount(row.cells.amount) : null;
+    // A dated opening row prints its one figure where the amount would be.
+    if (OPENING_RE.test(row.cells.description ?? "")) {
+      prevBalance = balance ?? (row.cells.amount ? parseBalanceToken(row.cells.amount) : null) ?? prevBalance;
+      return row;
+    }
+    const prev = prevBalance;
+    if (balance !== null) prevBalance = balance;
+    if (!amount || !row.cells.date) return row;
+
+    const abs = Math.abs(amount.value);
+    let debit: boolean | undefined;
+    if (rule === "signed") {
+      debit = amount.value < 0;
+    } else if (rule === "drcr") {
+      const marker = row.cells.drCr?.trim().charAt(0).toUpperCase() ?? amount.marker?.charAt(0);
+      if (marker === "D" || marker === "C") debit = marker === "D";
+    } else if (balance !== null && prev !== null) {
+      const delta = balance - prev;
+      debit = Math.abs(delta + abs) < Math.abs(delta - abs);
+    }
+    if (debit === undefined) return row;
+
+    const cells = { ...row.cells, [debit ? "withdrawal" : "deposit"]: String(abs) };
+    delete cells.amount;
+    return { ...row, cells };
+  });
+}
+
+function templateTxns(text: string, template: BankTemplate, dates?: DateContext): ParserTxn[] {
+  const rows = applyAmountSign(templateRows(text, template, dates), template.amountSign);
+  return tableToTxns({ columns: [], rows }, template.id, template.confidence ?? 0.9);
+}
+
+export function templateParser(template: BankTemplate): StatementParser {
+  const all = template.fingerprint.all.map((p) => p.toLowerCase());
+  const any = template.fingerprint.any?.map((p) => p.toLowerCase());
+  const score = template.fingerprint.score ?? 0.95;
+
+  return {
+    id: template.id,
+    kind: template.kind,
+    canParse(text) {
+      // Extracted text pads columns with runs of spaces; phrases use one.
+      const l = text.toLowerCase().replace(/[ \t]+/g, " ");
+      const hits = all.filter((p) => l.includes(p)).length;
+      if (hits === all.length && (!any || any.some((p) => l.includes(p)))) return score;
+      return hits > 0 ? 0.3 * (hits / all.length) : 0.03;
+    },
+    parse(text, dates) {
+      return templateTxns(text, template, dates);
+    },
+    parseTable(table, dates) {
+      const rows = applyAmountSign(table.rows, template.amountSign);
+      return tableToTxns({ ...table, rows }, template.id, template.confidence ?? 0.9, dates);
+    },
+    header(text) {
+      return extractStatementHeader(text, template.bank);
+    },
+  };
+}
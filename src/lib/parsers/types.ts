@@ -1,3 +1,13 @@
+import type {
+  CardSummary,
+  Counterparty,
+  ParseDiagnostics,
+  StatementHeader,
+  StatementKind,
+} from "@/lib/types/analyze";
+import type { DateContext } from "./common";
+import type { PositionedTable } from "./layout";
+
 export type ParserTxn = {
   date: string;
   description: string;
@@ -7,16 +17,33 @@ export type ParserTxn = {
   category: string;
   confidence: number;
   sourceParser: string;
+  balance?: number; // running balance after this row, when the statement prints one
+  externalId?: string; // FITID / check number from structured formats
+  valueDate?: string;
+  counterparty?: Counterparty;
+  reference?: string;
 };
 
 export type ParserRunResult = {
   parserId: string;
   score: number;
   txns: ParserTxn[];
+  kind: StatementKind;
+  card?: CardSummary;
+  statement: StatementHeader;
+  warnings: string[]; // rows left out or fields dropped, e.g. unreadable dates
+  // Debug mode only; the route adds which text (layer or OCR) it came from.
+  diagnostics?: Omit<ParseDiagnostics, "textSource">;
 };
 
 export type StatementParser = {
   id: string;
+  kind?: StatementKind; // defaults to "savings"
   canParse: (text: string) => number; // 0..1
-  parse: (text: string) => ParserTxn[];
+  // `dates` is the whole statement's date order and period (statementDates).
+  parse: (text: string, dates?: DateContext) => ParserTxn[];
+  // Positioned variant: rows already cut into cells by the PDF layout stage.
+  parseTable?: (table: PositionedTable, dates?: DateContext) => ParserTxn[];
+  summary?: (text: string) => CardSummary;
+  header?: (text: string) => StatementHeader; // defaults to extractStatementHeader
 };
@@ -1,8 +1,37 @@
-export type FileType = "pdf" | "csv" | "image" | "unknown";
+export type FileType = "pdf" | "csv" | "excel" | "image" | "ofx" | "qif" | "camt053" | "mt940" | "unknown";
+
+export type PaymentRail = "NEFT" | "IMPS" | "RTGS" | "NACH" | "ECS" | "UPI";
+
+// The other side of a transfer, as far as the statement names it.
+export type Counterparty = {
+  name?: string;
+  account?: string; // IBAN or local account number; only the last digits when read from a narration
+  bankCode?: string; // BIC / IFSC
+  bank?: string; // bank name as printed
+  reference?: string; // UTR / RRN of the transfer
+  rail?: PaymentRail;
+  mandate?: string; // NACH / ECS mandate (UMRN) or utility code
+};
+
+// Fields decoded from a UPI narration, as far as the bank printed them.
+export type UpiDetails = {
+  ref?: string; // 12-digit UPI reference (RRN)
+  name?: string; // payee or payer name
+  vpa?: string; // e.g. payee@okicici
+  handle?: string; // the part after "@"
+  psp?: string; // app behind the handle, e.g. Google Pay
+  remark?: string;
+};
+
+// Result of checking a row against the printed running balance. The fix kinds
+// mean the row only reconciled after that correction was applied.
+export type BalanceCheck = "ok" | "mismatch" | "flipped_sign" | "swapped_columns";
 
 export type Txn = {
   id: string;
-  date: string;
+  externalId?: string; // bank-assigned ID (OFX FITID, QIF check number)
+  date: string; // booking date
+  valueDate?: string;
   description: string;
   amount: number;
   drCr?: "CR" | "DR";
@@ -10,17 +39,134 @@ export type Txn = {
   currency: string;
   category: string;
   confidence: number;
+  balance?: number;
+  balanceCheck?: BalanceCheck;
   merchant?: string;
+  tags?: string[];
+  ruleId?: string; // the categorization rule that set category/merchant/tags
+  categorySource?: "model" | "correction"; // set in the browser when not the parser's own
   isSubscription?: boolean;
+  counterparty?: Counterparty;
+  reference?: string; // end-to-end / customer reference
+  upi?: UpiDetails;
+};
+
+export type StatementKind = "savings" | "credit_card";
+
+// Figures from a credit card statement's summary box. There is no running
+// balance on a card; these take its place.
+export type CardSummary = {
+  totalDue?: number;
+  minimumDue?: number;
+  dueDate?: string;
+  statementDate?: string;
+  creditLimit?: number;
+  availableCredit?: number;
+  rewardPoints?: number;
+};
+
+// Account facts from a statement's header and summary blocks, as printed.
+export type StatementHeader = {
+  bankName?: string;
+  accountHolder?: string;
+  accountNumber?: string; // masked, only the last four digits kept
+  accountType?: string;
+  ifsc?: string;
+  branch?: string;
+  periodFrom?: string;
+  periodTo?: string;
+  openingBalance?: number;
+  closingBalance?: number;
+};
+
+export type LedgerBalance = {
+  amount: number;
+  asOf?: string;
+  currency?: string;
+};
+
+// One uploaded file in a multi-statement analysis. `from`/`to` span its
+// transaction dates.
+export type StatementSource = {
+  fileName: string;
+  fileType: FileType;
+  txnCount: number;
+  duplicatesRemoved: number;
+  from?: string;
+  to?: string;
+  note?: string;
+  reconciliation?: Reconciliation;
+};
+
+// Days not covered by any uploaded statement, between two consecutive ones.
+export type StatementGap = {
+  from: string;
+  to: string;
+  days: number;
+  afterFile: string;
+  beforeFile: string;
+};
+
+export type Reconciliation = {
+  status: "pass" | "fail" | "skipped";
+  checkedRows: number;
+  mismatches: number;
+  mismatchIds: string[];
+  fixedIds: string[];
+  openingBalance?: number;
+  closingBalance?: number;
+  closingDifference?: number; // printed closing minus the rebuilt chain
+  confidence: number; // mean transaction confidence after reconciliation
+};
+
+// Where one PDF page's text came from. Scanned pages that were over the OCR
+// page budget, or that OCR could not read, are "skipped".
+export type PageSource = {
+  page: number; // 1-based
+  source: "text" | "ocr" | "skipped";
+  chars: number;
+  ocrConfidence?: number; // 0..1
+};
+
+// What the local extraction cache served for this upload.
+export type CacheUsage = {
+  text?: "hit" | "miss"; // PDF text layer
+  ocrHits: number; // pages or images whose OCR output came from the cache
+  ocrMisses: number;
 };
 
 export type AnalyzeMeta = {
   fileType: FileType;
+  statementKind?: StatementKind;
   encrypted?: boolean;
   pageCount?: number;
+  ledgerBalance?: LedgerBalance;
+  openingBalance?: LedgerBalance;
+  closingBalance?: LedgerBalance;
   extractedTextChars?: number;
   requiresOcr?: boolean;
+  ocrProvider?: string;
+  ocrChars?: number;
+  ocrConfidence?: number; // 0..1, character-weighted across OCR'd pages
+  pageSources?: PageSource[]; // PDFs only, in page order
+  cache?: CacheUsage; // absent when ANALYZE_CACHE=off
   note?: string;
+  statements?: StatementSource[];
+  gaps?: StatementGap[];
+  duplicatesRemoved?: number;
+  reconciliation?: Reconciliation;
+  parseWarnings?: string[]; // rows left out or fields dropped while parsing, e.g. unreadable dates
+};
+
+export type CategoryTotal = { category: string; count: number; total: number };
+
+export type CounterpartyTotal = {
+  name: string;
+  count: number;
+  paid: number;
+  received: number;
+  lastDate: string;
+  rails: PaymentRail[];
 };
 
 export type Insights = {
@@ -31,24 +177,93 @@ export type Insights = {
   incomeExpenseRatio: number | null;
   avgDebit: number;
   avgCredit: number;
-  categoryBreakdown: Array<{ category: string; count: number; total: number }>;
+  // Parent categories, each with its "parent › child" subcategories. Results
+  // saved before the taxonomy have no subcategories.
+  categoryBreakdown: Array<CategoryTotal & { subcategories?: CategoryTotal[] }>;
   monthOverMonth: Array<{ month: string; income: number; expense: number; net: number }>;
   subscriptions: Array<{ merchant: string; count: number; avgAmount: number; totalAmount: number }>;
+  // Largest counterparties by money moved either way; absent on results saved before it existed.
+  counterparties?: CounterpartyTotal[];
   unusualSpends: Array<{ id: string; date: string; description: string; amount: number }>;
   topExpense?: { description: string; amount: number };
   topCredit?: { description: string; amount: number };
 };
 
+// Raw text lines of a statement no parser could read, returned so the user can
+// mark its columns and teach the parser the layout.
+export type TeachSample = {
+  lines: string[];
+  fileName?: string; // the unrecognised file of a merged upload
+};
+
+// Role of one whitespace-separated token of the sample transaction line.
+export type TeachRole = "date" | "description" | "debit" | "credit" | "amount" | "balance";
+
+export type TeachRequest = {
+  headerLine: string;
+  sampleLine: string;
+  roles: Array<TeachRole | null>; // one per token of sampleLine
+  lines: string[]; // the TeachSample lines, to check the template before saving
+};
+
+export type TeachResponse =
+  | { ok: true; templateId: string; txnCount: number }
+  | { ok: false; message: string };
+
+// One parser's run in debug mode. "declined" parsers returned canParse 0;
+// "not_run" ones belong to the other statement kind and were only tried as a
+// fallback when the detected kind produced nothing.
+export type ParserAttempt = {
+  parserId: string;
+  kind: StatementKind;
+  status: "chosen" | "ran" | "declined" | "not_run";
+  hint: number; // canParse, 0..1
+  score: number;
+  txnCount: number;
+  avgConfidence: number | null;
+  rowsFrom?: "text" | "layout"; // which of parse / parseTable won for this parser
+};
+
+// Line numbers count the trimmed, non-empty lines of the parsed text, from 1.
+export type TableRegion = {
+  startLine: number;
+  endLine: number;
+  header?: string; // the column header line that opened it
+  rows: number;
+};
+
+export type UnmatchedLine = {
+  line: number;
+  text: string;
+  reason: string;
+};
+
+export type ParseDiagnostics = {
+  textSource: "text" | "ocr" | "mixed";
+  detectedKind: StatementKind;
+  lineCount: number;
+  attempts: ParserAttempt[];
+  tableRegions: TableRegion[];
+  unmatched: UnmatchedLine[];
+  unmatchedTruncated?: number; // further unmatched lines left out of the list
+};
+
 export type AnalyzeOk = {
   ok: true;
   txns: Txn[];
   meta: AnalyzeMeta;
   insights: Insights;
+  card?: CardSummary;
+  statement?: StatementHeader;
+  teach?: TeachSample;
+  debug?: ParseDiagnostics; // only when the request asked for debug mode
+  debugByFile?: Record<string, ParseDiagnostics>; // the same for each file of a merged upload
 };
 
 export type AnalyzeFail = {
   ok: false;
   message: string;
+  location?: string; // line, row or element of the input that failed
   needsPassword?: boolean;
 };
 